@@ -1,155 +1,560 @@
 
-import React, { useState, useRef, useCallback, useEffect } from 'react';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import { 
   OCRLanguage, 
+  OCREngineType,
   SubtitleArea, 
+  SubtitleRegion,
+  ScanSettings,
+  DispatchSettings,
+  PreprocessSettings,
+  TextCleanupSettings,
   SubtitleEntry, 
   OCRProcessState,
-  VideoMetadata 
+  VideoMetadata,
+  Project,
+  OCRJob
 } from './types';
 import VideoPlayer from './components/VideoPlayer';
 import OCRSettings from './components/OCRSettings';
 import SubtitleResult from './components/SubtitleResult';
-import { ocrService } from './services/geminiService';
+import ProjectList from './components/ProjectList';
+import PreprocessPanel, { PreprocessPreview } from './components/PreprocessPanel';
+import BatchQueue from './components/BatchQueue';
+import Timeline from './components/Timeline';
+import TimingAlignment from './components/TimingAlignment';
+import TextCleanupPanel from './components/TextCleanupPanel';
+import { OCRJobRunner, JobCancelledError, createJob, upgradeJob, countCompletedBatches, sumJobUsage, estimateJobCost } from './services/ocrJobRunner';
+import { getOCREngine, getTranslationEngine } from './services/ocrEngines';
+import { translateCues } from './services/translation';
+import { addUsage } from './services/ocrEngine';
+import { scanFrames, mergeJobResults, linkCueFrames, BATCH_SIZE, BATCH_OVERLAP } from './services/pipeline';
+import { createRegion, cueRegionId, filterTrack, DEFAULT_AREA } from './services/regions';
+import { detectSubtitleAreas, DETECT_WIDTH } from './services/regionDetector';
+import { DEFAULT_PREPROCESS, preprocessFrame, encodeFrame, rgbToHex } from './services/imagePreprocessor';
+import { FrameSource, createDecoderFrameSource, createSeekFrameSource, cropVideoFrame, captureRegions } from './services/frameSource';
+import { listProjects, saveProject, deleteProject, getJob, saveJob, deleteJob, saveFrames, getFrames, pruneFrames, fingerprintVideo, isSameVideo, serializeProject, parseProjectFile } from './services/projectStore';
+import { downloadFile } from './services/exporters';
+import { Waveform, decodeAudioTrack, computeWaveform } from './services/audioTrack';
+import { SpeechSegment, detectSpeech } from './services/speechAlignment';
+import { DEFAULT_CLEANUP, cleanupCues } from './services/textCleanup';
+import { regionLanguages } from './services/languages';
+import { useHistoryState } from './hooks/useHistoryState';
+import { useBatchQueue } from './hooks/useBatchQueue';
+
+type ProjectInfo = Pick<Project, 'id' | 'name' | 'createdAt' | 'video'>;
+
+const AUTOSAVE_DELAY = 800;
+// Frames sampled across the whole video when auto-detecting subtitle regions
+const DETECT_SAMPLES = 24;
+const DEFAULT_DISPATCH: DispatchSettings = { concurrency: 3, requestsPerMinute: 20 };
+const PREVIEW_DELAY = 200;
 
 const App: React.FC = () => {
   const [videoFile, setVideoFile] = useState<File | null>(null);
+  const videoFileRef = useRef(videoFile);
+  videoFileRef.current = videoFile;
   const [videoUrl, setVideoUrl] = useState<string>('');
   const [metadata, setMetadata] = useState<VideoMetadata | null>(null);
-  const [area, setArea] = useState<SubtitleArea>({ x: 10, y: 75, width: 80, height: 18 });
-  const [language, setLanguage] = useState<OCRLanguage>(OCRLanguage.English);
+  const [regions, setRegions] = useState<SubtitleRegion[]>(() => [createRegion('Dialogue')]);
+  const [activeRegionId, setActiveRegionId] = useState<string>(regions[0].id);
+  const [engineType, setEngineType] = useState<OCREngineType>(OCREngineType.Gemini);
+  const [scanSettings, setScanSettings] = useState<ScanSettings>({
+    sampleStep: 0.5,
+    diffThreshold: 0.08,
+    refineFrameRate: 0
+  });
+  const [dispatchSettings, setDispatchSettings] = useState<DispatchSettings>(DEFAULT_DISPATCH);
+  const [preprocess, setPreprocess] = useState<PreprocessSettings>(DEFAULT_PREPROCESS);
+  const [textCleanup, setTextCleanup] = useState<TextCleanupSettings>(DEFAULT_CLEANUP);
+  const [preprocessPreview, setPreprocessPreview] = useState<PreprocessPreview | null>(null);
+  const [isPickingColor, setIsPickingColor] = useState(false);
   const [timeRange, setTimeRange] = useState<{ start: number; end: number }>({ start: 0, end: 0 });
-  const [subtitles, setSubtitles] = useState<SubtitleEntry[]>([]);
+  const subtitleHistory = useHistoryState<SubtitleEntry[]>([]);
+  const subtitles = subtitleHistory.value;
+  // Long-running passes apply their results to the track as it is when they finish
+  const subtitlesRef = useRef(subtitles);
+  subtitlesRef.current = subtitles;
   const [processState, setProcessState] = useState<OCRProcessState>({
     isProcessing: false,
     progress: 0,
     currentStep: ''
   });
   const [currentTime, setCurrentTime] = useState(0);
+  const [projectInfo, setProjectInfo] = useState<ProjectInfo | null>(null);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [pendingProject, setPendingProject] = useState<Project | null>(null);
+  const [resumableJob, setResumableJob] = useState<OCRJob | null>(null);
+  const [detectedAreas, setDetectedAreas] = useState<SubtitleArea[]>([]);
+  const [detectProgress, setDetectProgress] = useState<number | null>(null);
+  const [showBatch, setShowBatch] = useState(false);
+  const [translationLanguage, setTranslationLanguage] = useState<OCRLanguage>(OCRLanguage.English);
+  const [translateProgress, setTranslateProgress] = useState<number | null>(null);
+  const [waveform, setWaveform] = useState<Waveform | null>(null);
+  const [speech, setSpeech] = useState<SpeechSegment[] | null>(null);
+  const [isAnalyzingAudio, setIsAnalyzingAudio] = useState(false);
+  const batch = useBatchQueue({ regions, engineType, scanSettings, dispatchSettings, preprocess, textCleanup });
+
+  const activeRegion = regions.find(r => r.id === activeRegionId) ?? regions[0];
+
+  const updateActiveRegion = useCallback((patch: Partial<SubtitleRegion>) => {
+    setRegions(rs => rs.map(r => r.id === activeRegion.id ? { ...r, ...patch } : r));
+  }, [activeRegion.id]);
+
+  const setArea = useCallback((area: SubtitleArea) => updateActiveRegion({ area }), [updateActiveRegion]);
+  const setLanguage = useCallback((language: OCRLanguage) => updateActiveRegion({ language }), [updateActiveRegion]);
+  const setMixedLanguages = useCallback((mixedLanguages: OCRLanguage[]) => updateActiveRegion({ mixedLanguages }), [updateActiveRegion]);
+
+  const addRegion = () => {
+    const region = createRegion(`Region ${regions.length + 1}`, { x: 10, y: 5, width: 80, height: 15 }, activeRegion.language);
+    setRegions([...regions, region]);
+    setActiveRegionId(region.id);
+  };
+
+  const removeRegion = (id: string) => {
+    if (regions.length <= 1) return;
+    const remaining = regions.filter(r => r.id !== id);
+    if (subtitles.some(s => cueRegionId(s, regions) === id) && !confirm("Remove this region and its subtitle track?")) return;
+    setRegions(remaining);
+    subtitleHistory.set(subtitles.filter(s => cueRegionId(s, regions) !== id));
+    if (activeRegionId === id) setActiveRegionId(remaining[0].id);
+  };
+
+  const renameRegion = (id: string, name: string) => {
+    setRegions(rs => rs.map(r => r.id === id ? { ...r, name } : r));
+  };
 
   const videoRef = useRef<HTMLVideoElement>(null);
+  // Time range restored from a project, applied once the video metadata arrives
+  const restoredRangeRef = useRef<{ start: number; end: number } | null>(null);
+  const runnerRef = useRef<OCRJobRunner | null>(null);
+  const decoderSourceRef = useRef<FrameSource | null>(null);
+  const seekSource = useMemo(() => createSeekFrameSource(() => videoRef.current), []);
+  const scanCancelledRef = useRef(false);
+
+  const refreshProjects = useCallback(() => {
+    listProjects().then(setProjects).catch(err => console.error("Project store unavailable:", err));
+  }, []);
+
+  useEffect(refreshProjects, [refreshProjects]);
+
+  // Picks up an interrupted job (e.g. after a reload) for the active project
+  useEffect(() => {
+    setResumableJob(null);
+    if (!projectInfo) return;
+    getJob(projectInfo.id)
+      .then(job => setResumableJob(job && job.status !== 'completed' ? job : null))
+      .catch(err => console.error("Job store unavailable:", err));
+  }, [projectInfo?.id]);
+
+  const buildProject = useCallback((): Project | null => projectInfo && {
+    ...projectInfo,
+    updatedAt: Date.now(),
+    regions,
+    engineType,
+    scanSettings,
+    dispatchSettings,
+    preprocess,
+    textCleanup,
+    translationLanguage,
+    timeRange,
+    subtitles
+  }, [projectInfo, regions, engineType, scanSettings, dispatchSettings, preprocess, textCleanup, translationLanguage, timeRange, subtitles]);
+
+  useEffect(() => {
+    if (!metadata) return;
+    const project = buildProject();
+    if (!project) return;
+    const timer = setTimeout(() => {
+      saveProject(project).catch(err => console.error("Project autosave failed:", err));
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [buildProject, metadata]);
 
   useEffect(() => {
     if (videoFile) {
       const url = URL.createObjectURL(videoFile);
       setVideoUrl(url);
+      setDetectedAreas([]);
+      setWaveform(null);
+      setSpeech(null);
       return () => URL.revokeObjectURL(url);
     }
   }, [videoFile]);
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // Scans decode in the background when the browser can; until then (or if it can't)
+  // frames are taken by seeking the player
+  useEffect(() => {
+    if (!videoFile) return;
+    let disposed = false;
+    let source: FrameSource | null = null;
+    createDecoderFrameSource(videoFile, seekSource)
+      .then(opened => {
+        if (disposed) return opened.dispose();
+        source = opened;
+        decoderSourceRef.current = opened;
+      })
+      .catch(err => console.warn("Background decoding unavailable, seeking the player instead:", err));
+    return () => {
+      disposed = true;
+      source?.dispose();
+      decoderSourceRef.current = null;
+    };
+  }, [videoFile]);
+
+  const frameSource = () => decoderSourceRef.current ?? seekSource;
+
+  // Decodes the audio once for both the waveform and speech detection; the samples
+  // themselves are dropped, as a long video's track runs to hundreds of megabytes
+  const analyzeAudio = async () => {
+    if (!videoFile) return;
+    const file = videoFile;
+    setIsAnalyzingAudio(true);
+    try {
+      const track = await decodeAudioTrack(file);
+      // The user may have opened another video while this one decoded
+      if (videoFileRef.current !== file) return;
+      setWaveform(computeWaveform(track));
+      setSpeech(detectSpeech(track));
+    } catch (err) {
+      console.error("Audio decoding failed:", err);
+      alert(err instanceof Error ? err.message : "Could not decode the audio track.");
+    } finally {
+      setIsAnalyzingAudio(false);
+    }
+  };
+
+  const restoreProject = (project: Project, video: ProjectInfo['video']) => {
+    setProjectInfo({ id: project.id, name: project.name, createdAt: project.createdAt, video });
+    // Projects saved before multi-region support carry a single area and language
+    const restoredRegions = project.regions?.length
+      ? project.regions
+      : [createRegion('Dialogue', project.area ?? DEFAULT_AREA, project.language ?? OCRLanguage.English)];
+    setRegions(restoredRegions);
+    setActiveRegionId(restoredRegions[0].id);
+    setEngineType(project.engineType);
+    setScanSettings(project.scanSettings);
+    setDispatchSettings(project.dispatchSettings ?? DEFAULT_DISPATCH);
+    setPreprocess(project.preprocess ?? DEFAULT_PREPROCESS);
+    setTextCleanup(project.textCleanup ?? DEFAULT_CLEANUP);
+    setTranslationLanguage(project.translationLanguage ?? OCRLanguage.English);
+    restoredRangeRef.current = project.timeRange;
+    subtitleHistory.reset(project.subtitles.map(s => ({ ...s, regionId: cueRegionId(s, restoredRegions) })));
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      setVideoFile(file);
-      setSubtitles([]);
-      setMetadata(null);
+    e.target.value = '';
+    if (!file) return;
+
+    const video = await fingerprintVideo(file);
+    let resume: Project | null = null;
+    if (pendingProject) {
+      if (isSameVideo(pendingProject.video, video) || confirm(`"${file.name}" does not match the video saved with "${pendingProject.name}". Restore the project anyway?`)) {
+        resume = pendingProject;
+      }
+    } else {
+      const match = projects.find(p => isSameVideo(p.video, video));
+      if (match && confirm(`Resume saved project "${match.name}"?`)) resume = match;
     }
+    setPendingProject(null);
+
+    if (resume) {
+      restoreProject(resume, video);
+    } else {
+      restoredRangeRef.current = null;
+      setProjectInfo({
+        id: `project-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`,
+        name: file.name.replace(/\.[^.]+$/, ''),
+        createdAt: Date.now(),
+        video
+      });
+      subtitleHistory.reset([]);
+    }
+    setVideoFile(file);
+    setMetadata(null);
   };
 
   const handleMetadataLoaded = (meta: VideoMetadata) => {
     setMetadata(meta);
-    setTimeRange({ start: 0, end: meta.duration });
+    setTimeRange(restoredRangeRef.current ?? { start: 0, end: meta.duration });
+    restoredRangeRef.current = null;
+  };
+
+  const exportProject = (project: Project) => {
+    downloadFile(serializeProject(project), `${project.name}.visionocr.json`, 'application/json');
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    if (!confirm("Delete this project? This cannot be undone.")) return;
+    await deleteProject(id);
+    if (pendingProject?.id === id) setPendingProject(null);
+    refreshProjects();
+  };
+
+  const handleImportProject = async (file: File) => {
+    try {
+      const project = parseProjectFile(await file.text());
+      await saveProject(project);
+      refreshProjects();
+      setPendingProject(project);
+    } catch (err) {
+      console.error(err);
+      alert(`Could not import ${file.name}. ${err instanceof Error ? err.message : ''}`);
+    }
   };
 
-  const captureFrame = useCallback((time: number): Promise<string> => {
-    return new Promise((resolve) => {
-      if (!videoRef.current) return resolve('');
+  // Before/after of the active region at the playhead, without seeking
+  useEffect(() => {
+    if (!metadata || processState.isProcessing || detectProgress !== null) return;
+    const timer = setTimeout(() => {
       const video = videoRef.current;
-      const canvas = document.createElement('canvas');
-      
-      const videoActualW = video.videoWidth;
-      const videoActualH = video.videoHeight;
-      
-      const cropX = (area.x / 100) * videoActualW;
-      const cropY = (area.y / 100) * videoActualH;
-      const cropW = (area.width / 100) * videoActualW;
-      const cropH = (area.height / 100) * videoActualH;
+      const crop = video && video.readyState >= 2 ? cropVideoFrame(video, activeRegion.area) : null;
+      if (!crop || crop.width === 0 || crop.height === 0) return setPreprocessPreview(null);
+      setPreprocessPreview({
+        before: crop.toDataURL('image/png'),
+        after: encodeFrame(preprocessFrame(crop, preprocess), preprocess)
+      });
+    }, PREVIEW_DELAY);
+    return () => clearTimeout(timer);
+  }, [metadata, currentTime, activeRegion.area, preprocess, processState.isProcessing, detectProgress]);
 
-      canvas.width = cropW;
-      canvas.height = cropH;
-      
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return resolve('');
+  const pickKeyColor = (point: { x: number; y: number }) => {
+    setIsPickingColor(false);
+    const video = videoRef.current;
+    if (!video) return;
+    const pixel = cropVideoFrame(video, { ...point, width: 100 / video.videoWidth, height: 100 / video.videoHeight });
+    const rgb = pixel?.getContext('2d')?.getImageData(0, 0, 1, 1).data;
+    if (rgb) setPreprocess({ ...preprocess, keyColor: rgbToHex(rgb[0], rgb[1], rgb[2]) });
+  };
 
-      const seekAndCapture = () => {
-        ctx.drawImage(video, cropX, cropY, cropW, cropH, 0, 0, cropW, cropH);
-        resolve(canvas.toDataURL('image/jpeg', 0.85));
-        video.removeEventListener('seeked', seekAndCapture);
-      };
+  const runJob = async (job: OCRJob) => {
+    const engine = getOCREngine(job.engineType);
+    const mergeResults = (current: OCRJob) => mergeJobResults(baseSubtitles, current, regions, scanSettings.sampleStep, textCleanup);
+    const runner = new OCRJobRunner(job, engine, dispatchSettings, {
+      onBatchSettled: (settled, batch) => {
+        const done = countCompletedBatches(settled);
+        // Partial results stay visible while the remaining batches run
+        subtitleHistory.replace(mergeResults(settled));
+        setProcessState(prev => ({
+          ...prev,
+          progress: 30 + (done / settled.batches.length) * 65,
+          currentStep: batch.status === 'failed'
+            ? `Segment ${batch.index + 1} failed: ${batch.error}`
+            : `Decoding segment ${done}/${settled.batches.length}...`,
+          usage: sumJobUsage(settled),
+          estimatedCost: estimateJobCost(settled, engine)
+        }));
+      },
+      onRetry: (batch, attempt) => setProcessState(prev => ({
+        ...prev,
+        currentStep: `Segment ${batch.index + 1} failed, retrying (attempt ${attempt + 1})...`
+      }))
+    }, { save: saveJob, remove: deleteJob });
+    // Record the pre-run track once so the whole run is a single undo step
+    const baseSubtitles = subtitles;
+    subtitleHistory.set(subtitles);
+    runnerRef.current = runner;
+    setProcessState(prev => ({ ...prev, stage: 'recognizing', usage: sumJobUsage(job), estimatedCost: estimateJobCost(job, engine) }));
 
-      video.addEventListener('seeked', seekAndCapture);
-      video.currentTime = Math.min(time, video.duration);
-    });
-  }, [area]);
+    try {
+      const finished = await runner.run();
+      const done = countCompletedBatches(finished);
+      const { subtitles: linked, frames } = linkCueFrames(mergeResults(finished), finished, regions);
+      subtitleHistory.replace(linked);
+      // Frames of the pre-run track stay too, so undoing the run keeps its thumbnails
+      const referenced = new Set([...baseSubtitles, ...linked].flatMap(s => s.frameIds ?? []));
+      saveFrames(frames)
+        .then(() => pruneFrames(finished.projectId, referenced))
+        .catch(err => console.error("Could not store cue frames:", err));
+      setResumableJob(finished.status === 'completed' ? null : finished);
+
+      const usage = sumJobUsage(finished);
+      const estimatedCost = estimateJobCost(finished, engine);
+      if (finished.status === 'completed') {
+        setProcessState({ isProcessing: false, progress: 100, currentStep: 'Process Complete.', usage, estimatedCost });
+      } else if (finished.status === 'paused') {
+        setProcessState({ isProcessing: false, progress: 0, currentStep: `Paused after ${done}/${finished.batches.length} segments.`, usage, estimatedCost });
+      } else {
+        alert(finished.engineType === OCREngineType.Gemini
+          ? "Some segments failed. Verify API configuration, then resume to retry them."
+          : "Some segments failed. Verify the offline language data is installed, then resume to retry them.");
+        setProcessState({ isProcessing: false, progress: 0, currentStep: `${finished.batches.length - done} segments failed.`, usage, estimatedCost });
+      }
+    } catch (err) {
+      if (!(err instanceof JobCancelledError)) throw err;
+      subtitleHistory.replace(baseSubtitles);
+      setResumableJob(null);
+      setProcessState({ isProcessing: false, progress: 0, currentStep: 'Cancelled.' });
+    } finally {
+      runnerRef.current = null;
+    }
+  };
 
   const startOCR = async () => {
-    if (!videoRef.current || !metadata) return;
+    if (!videoRef.current || !metadata || !projectInfo) return;
     
-    setProcessState({ isProcessing: true, progress: 0, currentStep: 'Initializing Vision Neural Scan...' });
+    scanCancelledRef.current = false;
+    setProcessState({ isProcessing: true, progress: 0, currentStep: 'Initializing Vision Neural Scan...', stage: 'scanning' });
+    const source = frameSource();
+    const originalTime = videoRef.current.currentTime;
+    // Only the seek fallback moves the player, so only then is it paused and put back
+    const restorePlayer = () => {
+      if (source.kind === 'seek' && videoRef.current) videoRef.current.currentTime = originalTime;
+    };
+
+    const scanRegions = regions;
+    const capture = (time: number) => {
+      if (scanCancelledRef.current) return Promise.reject(new JobCancelledError());
+      return captureRegions(source, time, scanRegions.map(r => r.area), preprocess);
+    };
     
     try {
-      const step = 0.5; 
-      const framesToProcess: { data: string; timestamp: number }[] = [];
-      const originalTime = videoRef.current.currentTime;
-      
-      videoRef.current.pause();
-
-      let current = timeRange.start;
-      const duration = timeRange.end - timeRange.start;
-      const totalSteps = Math.ceil(duration / step);
-      let count = 0;
-
-      while (current <= timeRange.end) {
-        const frameData = await captureFrame(current);
-        framesToProcess.push({ data: frameData, timestamp: current });
-        current += step;
-        count++;
-        setProcessState(prev => ({ 
-          ...prev, 
-          progress: Math.min(25, (count / totalSteps) * 25),
-          currentStep: `Extracting frames (${Math.round((count/totalSteps)*100)}%)...` 
-        }));
-      }
+      if (source.kind === 'seek') videoRef.current.pause();
 
-      setProcessState(prev => ({ ...prev, progress: 30, currentStep: 'Neural Dialogue Mapping...' }));
+      const { frames: framesToProcess, skipped } = await scanFrames(
+        capture,
+        scanRegions.length,
+        timeRange,
+        scanSettings,
+        (fraction, message) => setProcessState(prev => ({
+          ...prev,
+          progress: Math.min(25, fraction * 25),
+          currentStep: message
+        }))
+      );
 
-      const batchSize = 10;
-      let allSubs: SubtitleEntry[] = [];
-      
-      for (let i = 0; i < framesToProcess.length; i += batchSize) {
-        const batch = framesToProcess.slice(i, i + batchSize);
-        const batchResults = await ocrService.processFrames(batch, language);
-        allSubs = [...allSubs, ...batchResults];
-        
-        setProcessState(prev => ({ 
-          ...prev, 
-          progress: 30 + (i / framesToProcess.length) * 65,
-          currentStep: `Decoding segment ${Math.floor(i/batchSize) + 1}/${Math.ceil(framesToProcess.length/batchSize)}...`
-        }));
-      }
+      restorePlayer();
+      setProcessState(prev => ({
+        ...prev,
+        progress: 30,
+        currentStep: skipped > 0 ? `Neural Dialogue Mapping (${skipped} static frames skipped)...` : 'Neural Dialogue Mapping...'
+      }));
 
-      const finalSubs: SubtitleEntry[] = [];
-      const sorted = allSubs.sort((a, b) => a.startTime - b.startTime);
-      
-      sorted.forEach(sub => {
-        const last = finalSubs[finalSubs.length - 1];
-        if (last && sub.text.trim().toLowerCase() === last.text.trim().toLowerCase() && sub.startTime <= last.endTime + 0.3) {
-          last.endTime = Math.max(last.endTime, sub.endTime);
-        } else if (sub.text.trim().length > 0) {
-          finalSubs.push(sub);
-        }
-      });
+      const tracks = scanRegions.map((region, r) => ({
+        regionId: region.id,
+        language: region.language,
+        mixedLanguages: region.mixedLanguages,
+        frames: framesToProcess[r]
+      }));
+      await runJob(createJob(projectInfo.id, engineType, timeRange, tracks, BATCH_SIZE, BATCH_OVERLAP));
+    } catch (err) {
+      restorePlayer();
+      if (err instanceof JobCancelledError) {
+        setProcessState({ isProcessing: false, progress: 0, currentStep: 'Cancelled.' });
+        return;
+      }
+      console.error(err);
+      alert(engineType === OCREngineType.Gemini
+        ? "Neural extraction failed. Verify API configuration."
+        : "Local extraction failed. Verify the offline language data is installed.");
+      setProcessState({ isProcessing: false, progress: 0, currentStep: 'Failed.' });
+    }
+  };
 
-      setSubtitles(finalSubs);
-      videoRef.current.currentTime = originalTime;
-      setProcessState({ isProcessing: false, progress: 100, currentStep: 'Process Complete.' });
+  const resumeOCR = async () => {
+    if (!resumableJob) return;
+    const done = countCompletedBatches(resumableJob);
+    setProcessState({
+      isProcessing: true,
+      progress: 30 + (done / resumableJob.batches.length) * 65,
+      currentStep: `Resuming at segment ${done + 1}/${resumableJob.batches.length}...`,
+      stage: 'recognizing'
+    });
+    try {
+      await runJob(upgradeJob(resumableJob, regions));
     } catch (err) {
       console.error(err);
-      alert("Neural extraction failed. Verify API configuration.");
       setProcessState({ isProcessing: false, progress: 0, currentStep: 'Failed.' });
     }
   };
 
+  const pauseOCR = () => runnerRef.current?.pause();
+
+  const cancelOCR = () => {
+    scanCancelledRef.current = true;
+    runnerRef.current?.cancel();
+  };
+
+  const detectAreas = async () => {
+    if (!videoRef.current || !metadata) return;
+    const source = frameSource();
+    const originalTime = videoRef.current.currentTime;
+    if (source.kind === 'seek') videoRef.current.pause();
+    setDetectProgress(0);
+    try {
+      const found = await detectSubtitleAreas(
+        time => source.grab(time, DETECT_WIDTH),
+        { start: 0, end: metadata.duration, samples: DETECT_SAMPLES },
+        setDetectProgress
+      );
+      setDetectedAreas(found.map(d => d.area));
+      if (found.length === 0) alert("No subtitle-like text found. Position the area manually.");
+    } catch (err) {
+      console.error(err);
+      alert("Region detection failed.");
+    } finally {
+      setDetectProgress(null);
+      if (source.kind === 'seek' && videoRef.current) videoRef.current.currentTime = originalTime;
+    }
+  };
+
+  const acceptDetectedArea = (area: SubtitleArea, asNewRegion: boolean) => {
+    if (asNewRegion) {
+      const region = createRegion(`Region ${regions.length + 1}`, area, activeRegion.language);
+      setRegions([...regions, region]);
+      setActiveRegionId(region.id);
+    } else {
+      setArea(area);
+    }
+    setDetectedAreas(detectedAreas.filter(a => a !== area));
+  };
+
+  const translateTrack = async (regionId: string | null) => {
+    const cues = regionId ? filterTrack(subtitles, regionId, regions) : subtitles;
+    if (cues.length === 0) return;
+    setTranslateProgress(0);
+    const engine = getTranslationEngine();
+    try {
+      const { translations, failedLines, usage } = await translateCues(
+        cues,
+        regions,
+        translationLanguage,
+        engine,
+        dispatchSettings,
+        (done, total) => setTranslateProgress(done / total)
+      );
+      // Translation tokens count towards the session's usage and cost alongside OCR
+      setProcessState(prev => ({
+        ...prev,
+        usage: prev.usage ? addUsage(prev.usage, usage) : usage,
+        estimatedCost: (prev.estimatedCost ?? 0) + engine.estimateCost(usage)
+      }));
+      // Cues deleted meanwhile are skipped; edits made meanwhile keep their new text
+      subtitleHistory.set(subtitlesRef.current.map(s => translations.has(s.id) ? { ...s, translation: translations.get(s.id) } : s));
+      if (failedLines > 0) alert(`${failedLines} lines could not be translated. Verify API configuration and translate again.`);
+    } catch (err) {
+      console.error(err);
+      alert("Translation failed. Verify API configuration.");
+    } finally {
+      setTranslateProgress(null);
+    }
+  };
+
+  // The region crop halfway through the cue, where its text is fully on screen
+  const captureCueThumbnail = async (sub: SubtitleEntry): Promise<string | null> => {
+    const region = regions.find(r => r.id === cueRegionId(sub, regions));
+    if (!region || !metadata) return null;
+    const [crop] = await frameSource().crop((sub.startTime + sub.endTime) / 2, [region.area]);
+    return crop && crop.width > 0 && crop.height > 0 ? crop.toDataURL('image/jpeg', 0.85) : null;
+  };
+
+  const discardJob = async () => {
+    if (!resumableJob) return;
+    await deleteJob(resumableJob.projectId);
+    setResumableJob(null);
+  };
+
   return (
     <div className="min-h-screen flex flex-col p-4 sm:p-6 md:p-10 space-y-6 md:space-y-10 max-w-[1700px] mx-auto">
       <header className="flex flex-col md:flex-row justify-between items-center glass-panel p-6 sm:p-8 rounded-3xl md:rounded-[2rem] shadow-2xl relative overflow-hidden group">
@@ -181,6 +586,20 @@ const App: React.FC = () => {
               <span className="text-xs sm:text-sm font-mono text-cyan-400">{metadata.width}×{metadata.height}</span>
             </div>
           )}
+          {metadata && projectInfo && (
+            <button
+              onClick={() => { const project = buildProject(); if (project) exportProject(project); }}
+              className="px-4 sm:px-6 py-3 sm:py-4 bg-slate-800/80 hover:bg-slate-700 text-white rounded-xl sm:rounded-2xl transition-all border border-slate-700 font-extrabold text-[10px] sm:text-sm uppercase tracking-widest active:scale-95 whitespace-nowrap"
+            >
+              Save Project
+            </button>
+          )}
+          <button
+            onClick={() => setShowBatch(!showBatch)}
+            className={`px-4 sm:px-6 py-3 sm:py-4 rounded-xl sm:rounded-2xl transition-all border font-extrabold text-[10px] sm:text-sm uppercase tracking-widest active:scale-95 whitespace-nowrap ${showBatch ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-800/80 hover:bg-slate-700 border-slate-700 text-white'}`}
+          >
+            Batch{batch.isRunning ? ' ●' : ''}
+          </button>
           <label className="flex items-center space-x-2 sm:space-x-3 bg-white text-black hover:bg-indigo-50 px-4 sm:px-8 py-3 sm:py-4 rounded-xl sm:rounded-2xl cursor-pointer transition-all shadow-[0_10px_20px_-5px_rgba(255,255,255,0.2)] active:scale-95 font-extrabold text-[10px] sm:text-sm uppercase tracking-widest group whitespace-nowrap">
             <svg className="w-4 h-4 sm:w-5 sm:h-5 group-hover:rotate-12 transition-transform" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M12 4v16m8-8H4" /></svg>
             <span>Load Source</span>
@@ -189,6 +608,21 @@ const App: React.FC = () => {
         </div>
       </header>
 
+      {showBatch && (
+        <BatchQueue
+          items={batch.items}
+          isRunning={batch.isRunning}
+          presetRegions={regions}
+          onAddFiles={batch.addFiles}
+          onStart={batch.start}
+          onStop={batch.stop}
+          onRetry={batch.retry}
+          onRemove={batch.remove}
+          onOverride={batch.setOverride}
+          onClearFinished={batch.clearFinished}
+        />
+      )}
+
       {videoUrl ? (
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-6 md:gap-10 items-start">
           <div className="lg:col-span-8 flex flex-col space-y-6 md:space-y-8">
@@ -196,27 +630,109 @@ const App: React.FC = () => {
             <div className="neon-border rounded-2xl md:rounded-[2.5rem] overflow-hidden shadow-black shadow-2xl bg-black flex items-center justify-center">
               <VideoPlayer 
                 url={videoUrl} 
-                area={area} 
+                regions={regions}
+                activeRegionId={activeRegion.id}
+                onSelectRegion={setActiveRegionId}
+                detectedAreas={detectedAreas}
+                onPickColor={isPickingColor ? pickKeyColor : undefined}
                 setArea={setArea}
                 onMetadataLoaded={handleMetadataLoaded}
                 onTimeUpdate={setCurrentTime}
                 videoRef={videoRef}
                 currentTime={currentTime}
+                subtitles={subtitles}
               />
             </div>
+
+            {metadata && (
+              <Timeline
+                duration={metadata.duration}
+                currentTime={currentTime}
+                onSeek={(time) => { if(videoRef.current) videoRef.current.currentTime = time; }}
+                subtitles={subtitles}
+                onChange={subtitleHistory.set}
+                regions={regions}
+                activeRegionId={activeRegion.id}
+                timeRange={timeRange}
+                setTimeRange={setTimeRange}
+                waveform={waveform}
+                speech={speech}
+                isLoadingWaveform={isAnalyzingAudio}
+                onLoadWaveform={analyzeAudio}
+                disabled={processState.isProcessing}
+              />
+            )}
+
+            {subtitles.length > 0 && (
+              <TimingAlignment
+                subtitles={subtitles}
+                regions={regions}
+                speech={speech}
+                isAnalyzing={isAnalyzingAudio}
+                onAnalyze={analyzeAudio}
+                onApply={subtitleHistory.set}
+                onJumpTo={(time) => { if(videoRef.current) videoRef.current.currentTime = time; }}
+                disabled={processState.isProcessing}
+              />
+            )}
             
             <OCRSettings 
-              area={area} 
+              regions={regions}
+              activeRegionId={activeRegion.id}
+              onSelectRegion={setActiveRegionId}
+              onAddRegion={addRegion}
+              onRemoveRegion={removeRegion}
+              onRenameRegion={renameRegion}
+              detectedAreas={detectedAreas}
+              detectProgress={detectProgress}
+              onDetectAreas={detectAreas}
+              onAcceptDetectedArea={acceptDetectedArea}
+              onDismissDetectedAreas={() => setDetectedAreas([])}
+              area={activeRegion.area} 
               setArea={setArea}
-              language={language}
+              language={activeRegion.language}
               setLanguage={setLanguage}
+              mixedLanguages={activeRegion.mixedLanguages ?? []}
+              setMixedLanguages={setMixedLanguages}
+              engineType={engineType}
+              setEngineType={setEngineType}
+              scanSettings={scanSettings}
+              setScanSettings={setScanSettings}
+              dispatchSettings={dispatchSettings}
+              setDispatchSettings={setDispatchSettings}
               timeRange={timeRange}
               setTimeRange={setTimeRange}
               totalDuration={metadata?.duration || 0}
               onStartOCR={startOCR}
+              onPauseOCR={pauseOCR}
+              onCancelOCR={cancelOCR}
+              onResumeOCR={resumeOCR}
+              onDiscardJob={discardJob}
+              resumableJob={resumableJob && {
+                completed: countCompletedBatches(resumableJob),
+                total: resumableJob.batches.length
+              }}
               processState={processState}
               currentTime={currentTime}
             />
+
+            <PreprocessPanel
+              settings={preprocess}
+              onChange={setPreprocess}
+              preview={preprocessPreview}
+              isPickingColor={isPickingColor}
+              onTogglePicker={() => setIsPickingColor(!isPickingColor)}
+              disabled={processState.isProcessing}
+            />
+
+            <TextCleanupPanel
+              settings={textCleanup}
+              onChange={setTextCleanup}
+              languages={regionLanguages(activeRegion)}
+              onApplyToTrack={() => subtitleHistory.set(cleanupCues(subtitles, regions, textCleanup))}
+              canApply={subtitles.length > 0}
+              disabled={processState.isProcessing}
+            />
           </div>
 
           <div className="lg:col-span-4 lg:sticky lg:top-10 h-fit">
@@ -224,6 +740,20 @@ const App: React.FC = () => {
               subtitles={subtitles} 
               currentTime={currentTime}
               onJumpTo={(time) => { if(videoRef.current) videoRef.current.currentTime = time; }}
+              onChange={subtitleHistory.set}
+              onUndo={subtitleHistory.undo}
+              onRedo={subtitleHistory.redo}
+              canUndo={subtitleHistory.canUndo}
+              canRedo={subtitleHistory.canRedo}
+              regions={regions}
+              activeRegionId={activeRegion.id}
+              metadata={metadata}
+              onCaptureThumbnail={captureCueThumbnail}
+              onLoadFrames={getFrames}
+              translationLanguage={translationLanguage}
+              onTranslationLanguageChange={setTranslationLanguage}
+              onTranslate={translateTrack}
+              translateProgress={translateProgress}
             />
           </div>
         </div>
@@ -249,6 +779,14 @@ const App: React.FC = () => {
               </div>
             ))}
           </div>
+          <ProjectList
+            projects={projects}
+            pendingProject={pendingProject}
+            onOpen={setPendingProject}
+            onDelete={handleDeleteProject}
+            onExport={exportProject}
+            onImport={handleImportProject}
+          />
         </div>
       )}
       
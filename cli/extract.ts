@@ -0,0 +1,237 @@
+import { parseArgs } from 'node:util';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { OCREngineType, OCRLanguage, ScanSettings, SubtitleArea, TextCleanupSettings } from '../types';
+import { GeminiOCRService } from '../services/geminiService';
+import { OCRJobRunner, createJob, countCompletedBatches, sumJobUsage, estimateJobCost } from '../services/ocrJobRunner';
+import { scanFrames, mergeJobResults, BATCH_SIZE, BATCH_OVERLAP } from '../services/pipeline';
+import { EXPORT_FORMATS } from '../services/exporters';
+import { DEFAULT_AREA, createRegion } from '../services/regions';
+import { DEFAULT_CLEANUP, parseCleanupFile } from '../services/textCleanup';
+import { createFfmpegCapture, probeVideo } from './ffmpeg';
+
+const USAGE = `Extract hard-coded subtitles from video files with Gemini OCR.
+
+Usage: npm run extract -- [options] <video...>
+
+Options:
+  --region x,y,w,h     subtitle area in percent of the frame (default ${DEFAULT_AREA.x},${DEFAULT_AREA.y},${DEFAULT_AREA.width},${DEFAULT_AREA.height})
+  --language <names>   comma-separated, main language first, or auto (default English)
+                       one of: ${Object.keys(OCRLanguage).join(', ')}
+  --format <ext>       ${EXPORT_FORMATS.map(f => f.extension).join(', ')} (default srt)
+  --out <dir>          output directory (default: next to each video)
+  --start <sec>        processing window start (default 0)
+  --end <sec>          processing window end (default: end of video)
+  --step <sec>         sample interval (default 0.5)
+  --threshold <0-1>    change tolerance for skipping static frames, 0 keeps every sample (default 0.08)
+  --fps <rate>         refine cue boundaries to one frame at this rate, 0 disables (default 0)
+  --concurrency <n>    OCR requests in flight (default 3)
+  --rpm <n>            OCR requests per minute, 0 disables the limit (default 20)
+  --cleanup <file>     text cleanup rules exported from the app (JSON), applied after merging
+  --png                send lossless PNG crops instead of JPEG
+  --json               write progress as JSON lines to stdout
+  -h, --help           show this help
+
+Requires ffmpeg and ffprobe on PATH (or FFMPEG_PATH / FFPROBE_PATH) and GEMINI_API_KEY.
+Exit codes: 0 all videos written, 1 at least one video failed, 2 invalid usage.`;
+
+const EXIT_OK = 0;
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+
+class UsageError extends Error {}
+
+type ProgressEvent =
+  | { event: 'start'; file: string; duration: number }
+  | { event: 'progress'; file: string; stage: 'scanning' | 'recognizing'; fraction: number; message: string }
+  | { event: 'done'; file: string; output: string; cues: number; failedSegments: number; totalTokens: number; estimatedCost: number }
+  | { event: 'error'; file: string; message: string }
+  | { event: 'summary'; succeeded: number; failed: number };
+
+const parseNumber = (name: string, value: string | undefined, fallback: number, min = 0) => {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < min) throw new UsageError(`--${name} must be a number of at least ${min}.`);
+  return parsed;
+};
+
+const parseRegion = (value: string | undefined): SubtitleArea => {
+  if (value === undefined) return DEFAULT_AREA;
+  const parts = value.split(',').map(Number);
+  if (parts.length !== 4 || parts.some(n => !Number.isFinite(n) || n < 0 || n > 100)) {
+    throw new UsageError("--region takes four percentages: x,y,width,height.");
+  }
+  const [x, y, width, height] = parts;
+  return { x, y, width, height };
+};
+
+const parseLanguages = (value: string | undefined): OCRLanguage[] => {
+  if (value === undefined) return [OCRLanguage.English];
+  return value.split(',').map(name => {
+    const match = Object.entries(OCRLanguage).find(([key, label]) =>
+      [key.toLowerCase(), label.toLowerCase()].includes(name.trim().toLowerCase()));
+    if (!match) throw new UsageError(`Unknown --language "${name}".`);
+    return match[1];
+  });
+};
+
+const parseCommandLine = () => {
+  try {
+    return parseArgs({
+      allowPositionals: true,
+      options: {
+        region: { type: 'string' },
+        language: { type: 'string' },
+        format: { type: 'string', default: 'srt' },
+        out: { type: 'string' },
+        start: { type: 'string' },
+        end: { type: 'string' },
+        step: { type: 'string' },
+        threshold: { type: 'string' },
+        fps: { type: 'string' },
+        concurrency: { type: 'string' },
+        rpm: { type: 'string' },
+        cleanup: { type: 'string' },
+        png: { type: 'boolean', default: false },
+        json: { type: 'boolean', default: false },
+        help: { type: 'boolean', short: 'h', default: false }
+      }
+    });
+  } catch (err) {
+    throw new UsageError(err instanceof Error ? err.message : String(err));
+  }
+};
+
+const main = async (): Promise<number> => {
+  const { values, positionals } = parseCommandLine();
+
+  if (values.help) {
+    console.log(USAGE);
+    return EXIT_OK;
+  }
+  if (positionals.length === 0) throw new UsageError("No video files given.");
+
+  const format = EXPORT_FORMATS.find(f => f.extension === values.format!.toLowerCase());
+  if (!format) throw new UsageError(`Unknown --format "${values.format}".`);
+
+  const [language, ...mixedLanguages] = parseLanguages(values.language);
+  const region = { ...createRegion('Subtitles', parseRegion(values.region), language), mixedLanguages };
+  const scanSettings: ScanSettings = {
+    sampleStep: parseNumber('step', values.step, 0.5, 0.04),
+    diffThreshold: parseNumber('threshold', values.threshold, 0.08),
+    refineFrameRate: parseNumber('fps', values.fps, 0)
+  };
+  const windowStart = parseNumber('start', values.start, 0);
+  const windowEnd = parseNumber('end', values.end, Infinity);
+  const dispatch = {
+    concurrency: parseNumber('concurrency', values.concurrency, 3, 1),
+    requestsPerMinute: parseNumber('rpm', values.rpm, 20)
+  };
+
+  // The app's defaults apply without a file, so both produce the same text
+  let cleanup: TextCleanupSettings = DEFAULT_CLEANUP;
+  if (values.cleanup !== undefined) {
+    try {
+      cleanup = parseCleanupFile(await readFile(values.cleanup, 'utf8'));
+    } catch (err) {
+      throw new UsageError(`Could not read --cleanup ${values.cleanup}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  process.env.API_KEY ||= process.env.GEMINI_API_KEY;
+  if (!process.env.API_KEY) throw new UsageError("Set GEMINI_API_KEY to run Gemini OCR.");
+  const engine = new GeminiOCRService();
+
+  const report = (event: ProgressEvent) => {
+    if (values.json) {
+      console.log(JSON.stringify(event));
+    } else if (event.event === 'progress') {
+      console.error(`[${path.basename(event.file)}] ${Math.round(event.fraction * 100)}% ${event.message}`);
+    } else if (event.event === 'done') {
+      console.error(`[${path.basename(event.file)}] wrote ${event.cues} cues to ${event.output}`);
+    } else if (event.event === 'error') {
+      console.error(`[${path.basename(event.file)}] failed: ${event.message}`);
+    }
+  };
+
+  if (values.out) await mkdir(values.out, { recursive: true });
+
+  let failed = 0;
+  for (const file of positionals) {
+    try {
+      const metadata = await probeVideo(file);
+      report({ event: 'start', file, duration: metadata.duration });
+
+      // Stop a little short of the end, where seeking yields no frame
+      const timeRange = { start: windowStart, end: Math.min(windowEnd, Math.max(0, metadata.duration - 0.1)) };
+
+      let lastPercent = -1;
+      const { frames } = await scanFrames(
+        createFfmpegCapture(file, [region.area], values.png ? 'png' : 'jpeg'),
+        1,
+        timeRange,
+        scanSettings,
+        (fraction, message) => {
+          // Sampling reports every frame; one line per percent is plenty
+          if (Math.round(fraction * 100) === lastPercent) return;
+          lastPercent = Math.round(fraction * 100);
+          report({ event: 'progress', file, stage: 'scanning', fraction, message });
+        }
+      );
+
+      const job = createJob(path.resolve(file), OCREngineType.Gemini, timeRange,
+        [{ regionId: region.id, language, mixedLanguages, frames: frames[0] }], BATCH_SIZE, BATCH_OVERLAP);
+      const finished = await new OCRJobRunner(job, engine, dispatch, {
+        onBatchSettled: (settled, batch) => report({
+          event: 'progress',
+          file,
+          stage: 'recognizing',
+          fraction: countCompletedBatches(settled) / settled.batches.length,
+          message: batch.status === 'failed'
+            ? `Segment ${batch.index + 1} failed: ${batch.error}`
+            : `Decoded segment ${countCompletedBatches(settled)}/${settled.batches.length}`
+        }),
+        onRetry: (batch, attempt) => report({
+          event: 'progress',
+          file,
+          stage: 'recognizing',
+          fraction: countCompletedBatches(job) / job.batches.length,
+          message: `Segment ${batch.index + 1} failed, retrying (attempt ${attempt + 1})`
+        })
+      }).run();
+
+      const subtitles = mergeJobResults([], finished, [region], scanSettings.sampleStep, cleanup);
+      const output = path.join(values.out ?? path.dirname(file), `${path.parse(file).name}.${format.extension}`);
+      await writeFile(output, format.serialize(subtitles, { regions: [region], metadata }));
+
+      const failedSegments = finished.batches.length - countCompletedBatches(finished);
+      report({
+        event: 'done',
+        file,
+        output,
+        cues: subtitles.length,
+        failedSegments,
+        totalTokens: sumJobUsage(finished).totalTokens,
+        estimatedCost: estimateJobCost(finished, engine)
+      });
+      // Partial output is still written, but the run counts as failed
+      if (failedSegments > 0) {
+        failed++;
+        report({ event: 'error', file, message: `${failedSegments} of ${finished.batches.length} segments failed.` });
+      }
+    } catch (err) {
+      failed++;
+      report({ event: 'error', file, message: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  report({ event: 'summary', succeeded: positionals.length - failed, failed });
+  return failed > 0 ? EXIT_FAILED : EXIT_OK;
+};
+
+main()
+  .then(code => { process.exitCode = code; })
+  .catch(err => {
+    console.error(err instanceof UsageError ? `${err.message}\n\n${USAGE}` : err);
+    process.exitCode = err instanceof UsageError ? EXIT_USAGE : EXIT_FAILED;
+  });
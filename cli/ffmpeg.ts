@@ -0,0 +1,66 @@
+import { spawn } from 'node:child_process';
+import { SubtitleArea, VideoMetadata } from '../types';
+import { SIGNATURE_SOURCE_SIZE, SignedFrame, computeLumaSignature } from '../services/frameDiff';
+import type { RegionCapture } from '../services/pipeline';
+
+const FFMPEG = process.env.FFMPEG_PATH || 'ffmpeg';
+const FFPROBE = process.env.FFPROBE_PATH || 'ffprobe';
+
+export class FfmpegError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FfmpegError';
+  }
+}
+
+const run = (bin: string, args: string[]): Promise<Buffer> => new Promise((resolve, reject) => {
+  const child = spawn(bin, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+  const stdout: Buffer[] = [];
+  const stderr: Buffer[] = [];
+  child.stdout.on('data', chunk => stdout.push(chunk));
+  child.stderr.on('data', chunk => stderr.push(chunk));
+  child.on('error', err => reject(new FfmpegError(`Could not run ${bin}: ${err.message}`)));
+  child.on('close', code => {
+    if (code === 0) return resolve(Buffer.concat(stdout));
+    reject(new FfmpegError(`${bin} exited with ${code}: ${Buffer.concat(stderr).toString().trim().split('\n').pop()}`));
+  });
+});
+
+export const probeVideo = async (file: string): Promise<VideoMetadata> => {
+  const output = await run(FFPROBE, [
+    '-v', 'error',
+    '-select_streams', 'v:0',
+    '-show_entries', 'stream=width,height:format=duration',
+    '-of', 'json',
+    file
+  ]);
+  const info = JSON.parse(output.toString());
+  const { width, height } = info.streams?.[0] ?? {};
+  const duration = Number(info.format?.duration);
+  if (!width || !height || !Number.isFinite(duration)) throw new FfmpegError(`No video stream found in ${file}.`);
+  return { duration, width, height, aspectRatio: width / height };
+};
+
+const cropFilter = (area: SubtitleArea) =>
+  `crop=iw*${area.width / 100}:ih*${area.height / 100}:iw*${area.x / 100}:ih*${area.y / 100}`;
+
+// Decodes one frame at `time`; seeking before the input keeps each call fast
+const grabFrame = (file: string, time: number, filter: string, output: string[]) =>
+  run(FFMPEG, ['-v', 'error', '-ss', time.toFixed(3), '-i', file, '-frames:v', '1', '-vf', filter, ...output, '-']);
+
+// Frame capture for the shared scanner: the encoded crop plus its signature, per area
+export const createFfmpegCapture = (file: string, areas: SubtitleArea[], format: 'jpeg' | 'png'): RegionCapture =>
+  async (time: number): Promise<SignedFrame[]> => Promise.all(areas.map(async area => {
+    const crop = cropFilter(area);
+    const [image, luma] = await Promise.all([
+      grabFrame(file, time, crop, format === 'png'
+        ? ['-f', 'image2pipe', '-vcodec', 'png']
+        : ['-f', 'image2pipe', '-vcodec', 'mjpeg', '-q:v', '3']),
+      grabFrame(file, time, `${crop},scale=${SIGNATURE_SOURCE_SIZE.width}:${SIGNATURE_SOURCE_SIZE.height},format=gray`, ['-f', 'rawvideo'])
+    ]);
+    return {
+      data: `data:image/${format};base64,${image.toString('base64')}`,
+      timestamp: time,
+      signature: computeLumaSignature(luma)
+    };
+  }));
@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { BatchItem, OCRLanguage, SubtitleRegion } from '../types';
+import { EXPORT_FORMATS, downloadFile } from '../services/exporters';
+import { buildBatchArchive } from '../services/batchQueue';
+
+interface BatchQueueProps {
+  items: BatchItem[];
+  isRunning: boolean;
+  presetRegions: SubtitleRegion[];
+  onAddFiles: (files: File[]) => void;
+  onStart: () => void;
+  onStop: () => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onOverride: (id: string, override: Partial<Pick<BatchItem, 'regions' | 'language'>>) => void;
+  onClearFinished: () => void;
+}
+
+const STATUS_STYLES: Record<BatchItem['status'], string> = {
+  queued: 'text-slate-400',
+  processing: 'text-cyan-400',
+  done: 'text-emerald-400',
+  failed: 'text-rose-400'
+};
+
+const buttonClass = "px-3 py-2 bg-slate-800/80 hover:bg-white hover:text-black text-white text-[8px] sm:text-[9px] font-black rounded-xl transition-all border border-slate-700 uppercase tracking-widest active:scale-95 disabled:opacity-30 disabled:pointer-events-none";
+
+const BatchQueue: React.FC<BatchQueueProps> = ({
+  items,
+  isRunning,
+  presetRegions,
+  onAddFiles,
+  onStart,
+  onStop,
+  onRetry,
+  onRemove,
+  onOverride,
+  onClearFinished
+}) => {
+  const [formatIndex, setFormatIndex] = useState(0);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length) onAddFiles(files);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    onAddFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const downloadAll = () => {
+    const format = EXPORT_FORMATS[formatIndex];
+    downloadFile(buildBatchArchive(items, format), `subtitles-${format.extension}.zip`, 'application/zip');
+  };
+
+  const queued = items.filter(i => i.status === 'queued').length;
+  const finished = items.filter(i => i.result).length;
+
+  return (
+    <div className="glass-panel p-6 sm:p-8 rounded-3xl md:rounded-[2rem] space-y-6 shadow-2xl">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex items-center space-x-2">
+          <span className="w-1 h-1 sm:w-1.5 sm:h-1.5 bg-indigo-500 rounded-full"></span>
+          <span className="text-[9px] sm:text-xs font-black text-slate-400 uppercase tracking-[0.2em]">Batch Queue</span>
+          <span className="text-[8px] sm:text-[10px] text-slate-500 uppercase tracking-widest">
+            · {presetRegions.length} zone preset · {queued} queued
+          </span>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {isRunning ? (
+            <button onClick={onStop} className={buttonClass}>Stop</button>
+          ) : (
+            <button onClick={onStart} disabled={queued === 0} className={buttonClass}>Start Queue</button>
+          )}
+          <button onClick={onClearFinished} disabled={!items.some(i => i.status === 'done')} className={buttonClass}>Clear Done</button>
+          <select
+            value={formatIndex}
+            onChange={e => setFormatIndex(Number(e.target.value))}
+            className="bg-slate-900 border border-slate-700 rounded-xl px-2 py-2 text-[8px] sm:text-[9px] font-black text-white uppercase tracking-widest"
+          >
+            {EXPORT_FORMATS.map((f, i) => <option key={f.extension} value={i}>{f.extension}</option>)}
+          </select>
+          <button onClick={downloadAll} disabled={finished === 0} className={buttonClass}>Download Zip ({finished})</button>
+        </div>
+      </div>
+
+      <div
+        onDragOver={e => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`flex flex-col sm:flex-row items-center justify-center gap-3 p-6 rounded-2xl border-2 border-dashed transition-all ${isDragging ? 'border-indigo-500 bg-indigo-500/10' : 'border-slate-800'}`}
+      >
+        <span className="text-[9px] sm:text-[10px] text-slate-500 uppercase tracking-widest font-bold">Drop videos here or</span>
+        <label className={`${buttonClass} cursor-pointer`}>
+          Add Files
+          <input type="file" className="hidden" accept="video/*" multiple onChange={handleFiles} />
+        </label>
+        <label className={`${buttonClass} cursor-pointer`}>
+          Add Folder
+          {/* webkitdirectory is not in React's input attributes */}
+          <input type="file" className="hidden" multiple ref={el => el?.setAttribute('webkitdirectory', '')} onChange={handleFiles} />
+        </label>
+      </div>
+
+      {items.length > 0 ? (
+        <div className="space-y-2 max-h-[420px] overflow-y-auto pr-1">
+          {items.map(item => {
+            const busy = item.status === 'processing';
+            return (
+              <div key={item.id} className="p-4 rounded-2xl border border-slate-800 bg-slate-900/50 space-y-3">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="text-xs sm:text-sm font-bold text-slate-200 truncate">{item.file.name}</p>
+                    <p className="text-[8px] sm:text-[10px] uppercase tracking-widest mt-1">
+                      <span className={`font-black ${STATUS_STYLES[item.status]}`}>{item.status}</span>
+                      <span className="text-slate-500"> · {item.currentStep}</span>
+                    </p>
+                    {item.error && <p className="text-[9px] sm:text-[10px] text-rose-300 mt-1 break-words">{item.error}</p>}
+                  </div>
+                  <div className="flex space-x-2 flex-shrink-0">
+                    {item.status === 'failed' && <button onClick={() => onRetry(item.id)} className={buttonClass}>Retry</button>}
+                    <button onClick={() => onRemove(item.id)} className={buttonClass}>Remove</button>
+                  </div>
+                </div>
+
+                {busy && (
+                  <div className="h-1 bg-slate-800 rounded-full overflow-hidden">
+                    <div className="h-full bg-gradient-to-r from-indigo-500 to-cyan-400 transition-all" style={{ width: `${item.progress}%` }}></div>
+                  </div>
+                )}
+
+                <div className="flex flex-wrap items-center gap-2">
+                  <select
+                    value={item.language ?? ''}
+                    disabled={busy}
+                    onChange={e => onOverride(item.id, { language: (e.target.value || undefined) as OCRLanguage | undefined })}
+                    className="bg-slate-900 border border-slate-700 rounded-xl px-2 py-1.5 text-[8px] sm:text-[9px] font-bold text-slate-300 disabled:opacity-30"
+                  >
+                    <option value="">Preset language</option>
+                    {Object.values(OCRLanguage).map(lang => <option key={lang} value={lang}>{lang}</option>)}
+                  </select>
+                  {item.regions ? (
+                    <button
+                      onClick={() => onOverride(item.id, { regions: undefined })}
+                      disabled={busy}
+                      className={buttonClass}
+                      title="Go back to the shared zone preset"
+                    >
+                      {item.regions.length} own zones ×
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => onOverride(item.id, { regions: presetRegions })}
+                      disabled={busy}
+                      className={buttonClass}
+                      title="Keep the zones as they are now for this file, even if the preset changes later"
+                    >
+                      Pin current zones
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="text-[9px] sm:text-[10px] text-slate-600 uppercase tracking-widest font-bold text-center py-4">No videos queued</p>
+      )}
+    </div>
+  );
+};
+
+export default BatchQueue;
@@ -1,29 +1,88 @@
 
 import React, { useState } from 'react';
-import { SubtitleArea, OCRLanguage, OCRProcessState } from '../types';
+import { SubtitleArea, SubtitleRegion, OCRLanguage, OCREngineType, OCRProcessState, ScanSettings, DispatchSettings, TokenUsage } from '../types';
+import { DEFAULT_AREA } from '../services/regions';
 
 interface OCRSettingsProps {
-  area: SubtitleArea;
+  regions: SubtitleRegion[];
+  activeRegionId: string;
+  onSelectRegion: (id: string) => void;
+  onAddRegion: () => void;
+  onRemoveRegion: (id: string) => void;
+  onRenameRegion: (id: string, name: string) => void;
+  detectedAreas: SubtitleArea[];
+  detectProgress: number | null; // 0-1 while detection runs
+  onDetectAreas: () => void;
+  onAcceptDetectedArea: (area: SubtitleArea, asNewRegion: boolean) => void;
+  onDismissDetectedAreas: () => void;
+  area: SubtitleArea; // of the active region
+  language: OCRLanguage; // of the active region
   setArea: (area: SubtitleArea) => void;
-  language: OCRLanguage;
   setLanguage: (lang: OCRLanguage) => void;
+  mixedLanguages: OCRLanguage[]; // of the active region
+  setMixedLanguages: (langs: OCRLanguage[]) => void;
+  engineType: OCREngineType;
+  setEngineType: (type: OCREngineType) => void;
+  scanSettings: ScanSettings;
+  setScanSettings: (settings: ScanSettings) => void;
+  dispatchSettings: DispatchSettings;
+  setDispatchSettings: (settings: DispatchSettings) => void;
   timeRange: { start: number; end: number };
   setTimeRange: (range: { start: number; end: number }) => void;
   totalDuration: number;
   onStartOCR: () => void;
+  onPauseOCR: () => void;
+  onCancelOCR: () => void;
+  onResumeOCR: () => void;
+  onDiscardJob: () => void;
+  resumableJob: { completed: number; total: number } | null;
   processState: OCRProcessState;
   currentTime: number;
 }
 
+const UsageSummary: React.FC<{ usage?: TokenUsage; estimatedCost?: number }> = ({ usage, estimatedCost }) => {
+  if (!usage || usage.totalTokens === 0) return null;
+  return (
+    <div className="flex justify-between text-[8px] sm:text-[10px] font-bold text-slate-500 uppercase tracking-widest font-mono">
+      <span>{usage.promptTokens.toLocaleString()} in · {usage.outputTokens.toLocaleString()} out tokens</span>
+      <span className="text-cyan-400">≈ ${(estimatedCost ?? 0).toFixed(3)}</span>
+    </div>
+  );
+};
+
 const OCRSettings: React.FC<OCRSettingsProps> = ({
+  regions,
+  activeRegionId,
+  onSelectRegion,
+  onAddRegion,
+  onRemoveRegion,
+  onRenameRegion,
+  detectedAreas,
+  detectProgress,
+  onDetectAreas,
+  onAcceptDetectedArea,
+  onDismissDetectedAreas,
   area,
   setArea,
   language,
   setLanguage,
+  mixedLanguages,
+  setMixedLanguages,
+  engineType,
+  setEngineType,
+  scanSettings,
+  setScanSettings,
+  dispatchSettings,
+  setDispatchSettings,
   timeRange,
   setTimeRange,
   totalDuration,
   onStartOCR,
+  onPauseOCR,
+  onCancelOCR,
+  onResumeOCR,
+  onDiscardJob,
+  resumableJob,
   processState,
   currentTime
 }) => {
@@ -62,8 +121,8 @@ const OCRSettings: React.FC<OCRSettingsProps> = ({
   };
 
   const resetArea = () => {
-    setArea({ x: 10, y: 70, width: 80, height: 20 });
-    setAspectRatioValue(80/20);
+    setArea(DEFAULT_AREA);
+    setAspectRatioValue(DEFAULT_AREA.width / DEFAULT_AREA.height);
   };
 
   return (
@@ -99,6 +158,78 @@ const OCRSettings: React.FC<OCRSettingsProps> = ({
           <div className="flex items-center space-x-2">
             <span className="w-1 h-1 sm:w-1.5 sm:h-1.5 bg-indigo-500 rounded-full"></span>
             <label className="text-[9px] sm:text-xs font-black text-slate-400 uppercase tracking-[0.2em]">Extraction Zone</label>
+            <button
+              onClick={onDetectAreas}
+              disabled={processState.isProcessing || detectProgress !== null}
+              className="!ml-auto px-3 py-1.5 bg-slate-800 text-slate-300 hover:bg-white hover:text-black rounded-lg transition-all border border-slate-700 text-[8px] sm:text-[9px] font-black uppercase tracking-widest disabled:opacity-40"
+            >
+              {detectProgress !== null ? `Detecting ${Math.round(detectProgress * 100)}%` : 'Auto-detect'}
+            </button>
+          </div>
+          {detectedAreas.length > 0 && (
+            <div className="space-y-2 p-3 sm:p-4 rounded-2xl border border-amber-500/30 bg-amber-500/5">
+              <div className="flex justify-between items-center">
+                <span className="text-[8px] sm:text-[10px] text-amber-300 font-black uppercase tracking-widest">Detected Zones</span>
+                <button onClick={onDismissDetectedAreas} className="text-[8px] sm:text-[9px] text-slate-500 hover:text-white font-black uppercase tracking-widest">Dismiss</button>
+              </div>
+              {detectedAreas.map((detected, i) => (
+                <div key={i} className="flex items-center justify-between gap-2">
+                  <span className="text-[9px] sm:text-[10px] font-mono text-slate-300">
+                    #{i + 1} · {Math.round(detected.x)},{Math.round(detected.y)} · {Math.round(detected.width)}×{Math.round(detected.height)}%
+                  </span>
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => onAcceptDetectedArea(detected, false)}
+                      className="px-2 py-1 bg-amber-500/20 text-amber-200 hover:bg-amber-400 hover:text-black rounded-lg transition-all text-[8px] sm:text-[9px] font-black uppercase tracking-widest"
+                    >
+                      Use
+                    </button>
+                    <button
+                      onClick={() => onAcceptDetectedArea(detected, true)}
+                      className="px-2 py-1 bg-slate-800 text-slate-300 hover:bg-white hover:text-black rounded-lg transition-all text-[8px] sm:text-[9px] font-black uppercase tracking-widest"
+                    >
+                      Add as region
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="flex flex-wrap gap-2">
+            {regions.map(region => (
+              <button
+                key={region.id}
+                onClick={() => onSelectRegion(region.id)}
+                disabled={processState.isProcessing}
+                className={`px-3 py-2 rounded-xl text-[8px] sm:text-[10px] font-black uppercase tracking-widest transition-all border disabled:opacity-40 ${region.id === activeRegionId ? 'bg-indigo-600 text-white border-indigo-500' : 'bg-slate-900 text-slate-400 border-slate-800 hover:text-slate-200'}`}
+              >
+                {region.name || 'Untitled'} · {region.language}{region.mixedLanguages?.length ? ` +${region.mixedLanguages.length}` : ''}
+              </button>
+            ))}
+            <button
+              onClick={onAddRegion}
+              disabled={processState.isProcessing}
+              className="px-3 py-2 rounded-xl text-[8px] sm:text-[10px] font-black uppercase tracking-widest transition-all border border-dashed border-slate-700 text-slate-500 hover:text-white disabled:opacity-40"
+            >
+              + Region
+            </button>
+          </div>
+          <div className="flex items-center space-x-2">
+            <input
+              value={regions.find(r => r.id === activeRegionId)?.name ?? ''}
+              onChange={(e) => onRenameRegion(activeRegionId, e.target.value)}
+              placeholder="Region name"
+              className="flex-1 bg-slate-900 border border-slate-800 text-white text-[10px] sm:text-xs rounded-xl p-2 sm:p-3 outline-none focus:border-indigo-500/50 transition-all"
+            />
+            {regions.length > 1 && (
+              <button
+                onClick={() => onRemoveRegion(activeRegionId)}
+                disabled={processState.isProcessing}
+                className="px-3 py-2 sm:py-3 bg-slate-800 text-slate-400 hover:bg-rose-500 hover:text-white rounded-xl transition-all border border-slate-700 text-[8px] sm:text-[10px] font-black uppercase tracking-widest disabled:opacity-40"
+              >
+                Remove
+              </button>
+            )}
           </div>
           <div className="space-y-4 bg-black/30 p-4 sm:p-6 rounded-2xl sm:rounded-3xl border border-white/5">
             <div className="space-y-2">
@@ -149,6 +280,97 @@ const OCRSettings: React.FC<OCRSettingsProps> = ({
                 <option key={lang} value={lang}>{lang}</option>
               ))}
             </select>
+            <div className="space-y-2">
+              <span className="text-[8px] sm:text-[9px] font-black text-slate-500 uppercase tracking-widest">
+                {language === OCRLanguage.Auto ? 'Likely languages' : 'Also mixed with'}
+              </span>
+              <div className="flex flex-wrap gap-1.5">
+                {Object.values(OCRLanguage).filter(lang => lang !== OCRLanguage.Auto && lang !== language).map(lang => {
+                  const selected = mixedLanguages.includes(lang);
+                  return (
+                    <button
+                      key={lang}
+                      onClick={() => setMixedLanguages(selected ? mixedLanguages.filter(l => l !== lang) : [...mixedLanguages, lang])}
+                      className={`px-2 py-1 rounded-lg text-[8px] sm:text-[9px] font-bold transition-all border ${selected ? 'bg-cyan-600/80 text-white border-cyan-500' : 'bg-slate-900 text-slate-500 border-slate-800 hover:text-slate-200'}`}
+                    >
+                      {lang}
+                    </button>
+                  );
+                })}
+              </div>
+              {engineType === OCREngineType.Local && language === OCRLanguage.Auto && mixedLanguages.length === 0 && (
+                <p className="text-[8px] sm:text-[9px] text-amber-400 font-bold">The offline engine cannot auto-detect. Pick the likely languages.</p>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-3 sm:space-y-4">
+            <div className="flex items-center space-x-2">
+              <span className="w-1 h-1 sm:w-1.5 sm:h-1.5 bg-emerald-500 rounded-full"></span>
+              <label className="text-[9px] sm:text-xs font-black text-slate-400 uppercase tracking-[0.2em]">Recognition Engine</label>
+            </div>
+            <div className="grid grid-cols-2 gap-2 sm:gap-4">
+              {Object.values(OCREngineType).map(type => (
+                <button
+                  key={type}
+                  onClick={() => setEngineType(type)}
+                  disabled={processState.isProcessing}
+                  className={`px-3 py-3 sm:py-4 rounded-xl sm:rounded-2xl text-[8px] sm:text-[10px] font-black uppercase tracking-widest transition-all border disabled:opacity-40 ${engineType === type ? 'bg-indigo-600 text-white border-indigo-500 shadow-[0_0_15px_rgba(79,70,229,0.4)]' : 'bg-slate-900 text-slate-400 border-slate-800 hover:text-slate-200'}`}
+                >
+                  {type}
+                </button>
+              ))}
+            </div>
+            {engineType === OCREngineType.Local && (
+              <p className="text-[8px] sm:text-[10px] text-emerald-400/80 font-bold uppercase tracking-wider">Frames never leave this device</p>
+            )}
+          </div>
+
+          <div className="space-y-4 bg-black/30 p-4 sm:p-6 rounded-2xl sm:rounded-3xl border border-white/5">
+            <div className="space-y-2">
+              <div className="flex justify-between items-end">
+                <span className="text-[8px] sm:text-[10px] text-slate-500 font-bold uppercase">Sample Interval</span>
+                <span className="text-[10px] sm:text-xs font-mono text-indigo-400">{scanSettings.sampleStep.toFixed(2)}s</span>
+              </div>
+              <input type="range" min="0.1" max="2" step="0.05" value={scanSettings.sampleStep} onChange={(e) => setScanSettings({ ...scanSettings, sampleStep: Number(e.target.value) })} className="w-full h-1 sm:h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-indigo-500" />
+            </div>
+            <div className="space-y-2">
+              <div className="flex justify-between items-end">
+                <span className="text-[8px] sm:text-[10px] text-slate-500 font-bold uppercase">Skip Static Frames</span>
+                <span className="text-[10px] sm:text-xs font-mono text-indigo-400">{scanSettings.diffThreshold > 0 ? `${Math.round(scanSettings.diffThreshold * 100)}% tolerance` : 'Off'}</span>
+              </div>
+              <input type="range" min="0" max="0.3" step="0.01" value={scanSettings.diffThreshold} onChange={(e) => setScanSettings({ ...scanSettings, diffThreshold: Number(e.target.value) })} className="w-full h-1 sm:h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-indigo-500" />
+            </div>
+            <div className="flex justify-between items-center gap-4">
+              <span className="text-[8px] sm:text-[10px] text-slate-500 font-bold uppercase">Boundary Precision</span>
+              <select
+                value={scanSettings.refineFrameRate}
+                disabled={scanSettings.diffThreshold === 0}
+                onChange={(e) => setScanSettings({ ...scanSettings, refineFrameRate: Number(e.target.value) })}
+                className="bg-slate-900 border border-slate-700 text-white text-[10px] sm:text-xs rounded-xl p-2 outline-none focus:ring-2 focus:ring-indigo-500/50 disabled:opacity-40 cursor-pointer font-mono"
+              >
+                <option value={0}>Sample interval</option>
+                {[23.976, 24, 25, 29.97, 30, 50, 60].map(fps => (
+                  <option key={fps} value={fps}>1 frame @ {fps}fps</option>
+                ))}
+              </select>
+            </div>
+            <div className="grid grid-cols-2 gap-4 sm:gap-6">
+              <div className="space-y-2">
+                <div className="flex justify-between items-end">
+                  <span className="text-[8px] sm:text-[10px] text-slate-500 font-bold uppercase">Parallel</span>
+                  <span className="text-[10px] sm:text-xs font-mono text-indigo-400">{dispatchSettings.concurrency}×</span>
+                </div>
+                <input type="range" min="1" max="8" value={dispatchSettings.concurrency} onChange={(e) => setDispatchSettings({ ...dispatchSettings, concurrency: Number(e.target.value) })} className="w-full h-1 sm:h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-indigo-500" />
+              </div>
+              <div className="space-y-2">
+                <div className="flex justify-between items-end">
+                  <span className="text-[8px] sm:text-[10px] text-slate-500 font-bold uppercase">Req / Min</span>
+                  <span className="text-[10px] sm:text-xs font-mono text-indigo-400">{engineType !== OCREngineType.Local && dispatchSettings.requestsPerMinute > 0 ? dispatchSettings.requestsPerMinute : '∞'}</span>
+                </div>
+                <input type="range" min="0" max="120" step="5" value={dispatchSettings.requestsPerMinute} disabled={engineType === OCREngineType.Local} title={engineType === OCREngineType.Local ? 'Local OCR has no request quota' : undefined} onChange={(e) => setDispatchSettings({ ...dispatchSettings, requestsPerMinute: Number(e.target.value) })} className="w-full h-1 sm:h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-indigo-500 disabled:opacity-40" />
+              </div>
+            </div>
           </div>
 
           <div className="space-y-3 sm:space-y-4">
@@ -193,18 +415,59 @@ const OCRSettings: React.FC<OCRSettingsProps> = ({
                 style={{ width: `${processState.progress}%` }}
               ></div>
             </div>
+            <UsageSummary usage={processState.usage} estimatedCost={processState.estimatedCost} />
+            <div className="flex justify-end space-x-2">
+              {processState.stage === 'recognizing' && (
+                <button
+                  onClick={onPauseOCR}
+                  className="px-4 py-2 bg-slate-800/80 hover:bg-white hover:text-black text-white text-[9px] sm:text-[10px] font-black rounded-xl transition-all border border-slate-700 uppercase tracking-widest active:scale-95"
+                >
+                  Pause
+                </button>
+              )}
+              <button
+                onClick={onCancelOCR}
+                className="px-4 py-2 bg-slate-800/80 hover:bg-rose-500 text-white text-[9px] sm:text-[10px] font-black rounded-xl transition-all border border-slate-700 uppercase tracking-widest active:scale-95"
+              >
+                Cancel
+              </button>
+            </div>
           </div>
-        ) : (
-          <button 
-            onClick={onStartOCR}
-            className="group relative w-full py-4 sm:py-6 bg-white text-black font-black text-xs sm:text-base uppercase tracking-[0.2em] sm:tracking-[0.3em] rounded-2xl sm:rounded-3xl overflow-hidden transition-all hover:scale-[1.01] active:scale-[0.98] shadow-[0_10px_30px_-10px_rgba(255,255,255,0.2)]"
-          >
-            <div className="absolute inset-0 bg-gradient-to-r from-indigo-100 to-white opacity-0 group-hover:opacity-100 transition-opacity"></div>
-            <div className="relative z-10 flex items-center justify-center space-x-2 sm:space-x-3">
-              <svg className="w-4 h-4 sm:w-6 sm:h-6" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" /></svg>
-              <span>Execute Extraction</span>
+        ) : resumableJob ? (
+          <div className="space-y-3 sm:space-y-4">
+            <div className="flex justify-between text-[8px] sm:text-[10px] font-black text-indigo-300 uppercase tracking-widest">
+              <span>{processState.currentStep || 'Interrupted job found'}</span>
+              <span className="font-mono">{resumableJob.completed}/{resumableJob.total} segments</span>
             </div>
-          </button>
+            <div className="grid grid-cols-3 gap-2 sm:gap-4">
+              <button
+                onClick={onResumeOCR}
+                className="col-span-2 py-4 sm:py-6 bg-white text-black font-black text-xs sm:text-base uppercase tracking-[0.2em] rounded-2xl sm:rounded-3xl transition-all hover:scale-[1.01] active:scale-[0.98] shadow-[0_10px_30px_-10px_rgba(255,255,255,0.2)]"
+              >
+                Resume Extraction
+              </button>
+              <button
+                onClick={onDiscardJob}
+                className="py-4 sm:py-6 bg-slate-800/80 hover:bg-slate-700 text-white font-black text-[9px] sm:text-xs uppercase tracking-widest rounded-2xl sm:rounded-3xl transition-all border border-slate-700 active:scale-95"
+              >
+                Discard
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3 sm:space-y-4">
+            <UsageSummary usage={processState.usage} estimatedCost={processState.estimatedCost} />
+            <button 
+              onClick={onStartOCR}
+              className="group relative w-full py-4 sm:py-6 bg-white text-black font-black text-xs sm:text-base uppercase tracking-[0.2em] sm:tracking-[0.3em] rounded-2xl sm:rounded-3xl overflow-hidden transition-all hover:scale-[1.01] active:scale-[0.98] shadow-[0_10px_30px_-10px_rgba(255,255,255,0.2)]"
+            >
+              <div className="absolute inset-0 bg-gradient-to-r from-indigo-100 to-white opacity-0 group-hover:opacity-100 transition-opacity"></div>
+              <div className="relative z-10 flex items-center justify-center space-x-2 sm:space-x-3">
+                <svg className="w-4 h-4 sm:w-6 sm:h-6" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" /></svg>
+                <span>Execute Extraction</span>
+              </div>
+            </button>
+          </div>
         )}
       </div>
     </div>
@@ -0,0 +1,123 @@
+
+import React from 'react';
+import { PreprocessSettings } from '../types';
+import { DEFAULT_PREPROCESS } from '../services/imagePreprocessor';
+
+export interface PreprocessPreview {
+  before: string; // data URL of the raw crop
+  after: string; // data URL as sent to the engine
+}
+
+interface PreprocessPanelProps {
+  settings: PreprocessSettings;
+  onChange: (settings: PreprocessSettings) => void;
+  preview: PreprocessPreview | null;
+  isPickingColor: boolean;
+  onTogglePicker: () => void;
+  disabled: boolean;
+}
+
+const toggleClass = (active: boolean) =>
+  `px-3 py-2 rounded-xl text-[8px] sm:text-[10px] font-black uppercase tracking-widest transition-all border disabled:opacity-40 ${active ? 'bg-indigo-600 text-white border-indigo-500' : 'bg-slate-900 text-slate-400 border-slate-800 hover:text-slate-200'}`;
+
+const sliderClass = "w-full h-1 sm:h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-indigo-500";
+
+const PreprocessPanel: React.FC<PreprocessPanelProps> = ({
+  settings,
+  onChange,
+  preview,
+  isPickingColor,
+  onTogglePicker,
+  disabled
+}) => {
+  const update = (patch: Partial<PreprocessSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="glass-panel p-4 sm:p-8 rounded-3xl md:rounded-[2.5rem] shadow-2xl space-y-6 relative overflow-hidden">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center space-x-2">
+          <span className="w-1 h-1 sm:w-1.5 sm:h-1.5 bg-amber-500 rounded-full"></span>
+          <label className="text-[9px] sm:text-xs font-black text-slate-400 uppercase tracking-[0.2em]">Image Preprocessing</label>
+        </div>
+        <button
+          onClick={() => onChange(DEFAULT_PREPROCESS)}
+          disabled={disabled}
+          className="px-3 py-1.5 bg-slate-800 text-slate-400 hover:text-white rounded-lg transition-all border border-slate-700 text-[8px] sm:text-[9px] font-black uppercase tracking-widest disabled:opacity-40"
+        >
+          Reset
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 sm:gap-10">
+        <div className="space-y-4 bg-black/30 p-4 sm:p-6 rounded-2xl sm:rounded-3xl border border-white/5">
+          <div className="space-y-2">
+            <div className="flex justify-between items-end">
+              <span className="text-[8px] sm:text-[10px] text-slate-500 font-bold uppercase">Upscale</span>
+              <span className="text-[10px] sm:text-xs font-mono text-indigo-400">{settings.upscale}×</span>
+            </div>
+            <input type="range" min="1" max="4" step="1" value={settings.upscale} disabled={disabled} onChange={(e) => update({ upscale: Number(e.target.value) })} className={sliderClass} />
+          </div>
+          <div className="space-y-2">
+            <div className="flex justify-between items-end">
+              <span className="text-[8px] sm:text-[10px] text-slate-500 font-bold uppercase">Contrast</span>
+              <span className="text-[10px] sm:text-xs font-mono text-indigo-400">{settings.contrast.toFixed(1)}×</span>
+            </div>
+            <input type="range" min="0.5" max="3" step="0.1" value={settings.contrast} disabled={disabled} onChange={(e) => update({ contrast: Number(e.target.value) })} className={sliderClass} />
+          </div>
+          <div className="space-y-2">
+            <div className="flex justify-between items-end">
+              <span className="text-[8px] sm:text-[10px] text-slate-500 font-bold uppercase">Threshold</span>
+              <span className="text-[10px] sm:text-xs font-mono text-indigo-400">{settings.threshold > 0 ? settings.threshold : 'Off'}</span>
+            </div>
+            <input type="range" min="0" max="255" step="5" value={settings.threshold} disabled={disabled || !!settings.keyColor} onChange={(e) => update({ threshold: Number(e.target.value) })} className={sliderClass} />
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button onClick={() => update({ grayscale: !settings.grayscale })} disabled={disabled} className={toggleClass(settings.grayscale)}>Grayscale</button>
+            <button onClick={() => update({ removeOutline: !settings.removeOutline })} disabled={disabled} className={toggleClass(settings.removeOutline)}>Remove Outline</button>
+            <button onClick={() => update({ format: settings.format === 'png' ? 'jpeg' : 'png' })} disabled={disabled} className={toggleClass(settings.format === 'png')}>
+              {settings.format === 'png' ? 'PNG (Lossless)' : 'JPEG'}
+            </button>
+          </div>
+        </div>
+
+        <div className="space-y-4 bg-black/30 p-4 sm:p-6 rounded-2xl sm:rounded-3xl border border-white/5">
+          <div className="flex justify-between items-center gap-2">
+            <span className="text-[8px] sm:text-[10px] text-slate-500 font-bold uppercase">Text Colour Key</span>
+            <div className="flex items-center space-x-2">
+              {settings.keyColor && (
+                <>
+                  <span className="w-5 h-5 rounded-md border border-slate-600" style={{ backgroundColor: settings.keyColor }}></span>
+                  <button onClick={() => update({ keyColor: null })} disabled={disabled} className="text-[8px] sm:text-[9px] text-slate-500 hover:text-white font-black uppercase tracking-widest">Clear</button>
+                </>
+              )}
+              <button onClick={onTogglePicker} disabled={disabled} className={toggleClass(isPickingColor)}>
+                {isPickingColor ? 'Click the video…' : 'Eyedropper'}
+              </button>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <div className="flex justify-between items-end">
+              <span className="text-[8px] sm:text-[10px] text-slate-500 font-bold uppercase">Key Tolerance</span>
+              <span className="text-[10px] sm:text-xs font-mono text-indigo-400">{settings.keyTolerance}</span>
+            </div>
+            <input type="range" min="10" max="200" step="5" value={settings.keyTolerance} disabled={disabled || !settings.keyColor} onChange={(e) => update({ keyTolerance: Number(e.target.value) })} className={sliderClass} />
+          </div>
+          {preview ? (
+            <div className="space-y-2">
+              {[{ label: 'Before', src: preview.before }, { label: 'After', src: preview.after }].map(image => (
+                <div key={image.label} className="space-y-1">
+                  <span className="text-[8px] sm:text-[9px] text-slate-600 font-black uppercase tracking-widest">{image.label}</span>
+                  <img src={image.src} alt={image.label} className="w-full max-h-24 object-contain rounded-lg border border-slate-800 bg-black" />
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-[8px] sm:text-[10px] text-slate-600 uppercase tracking-widest font-bold text-center py-4">Preview appears once the video is loaded</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PreprocessPanel;
@@ -0,0 +1,85 @@
+
+import React from 'react';
+import { Project } from '../types';
+
+interface ProjectListProps {
+  projects: Project[];
+  pendingProject: Project | null;
+  onOpen: (project: Project) => void;
+  onDelete: (id: string) => void;
+  onExport: (project: Project) => void;
+  onImport: (file: File) => void;
+}
+
+const ProjectList: React.FC<ProjectListProps> = ({
+  projects,
+  pendingProject,
+  onOpen,
+  onDelete,
+  onExport,
+  onImport
+}) => {
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onImport(file);
+  };
+
+  return (
+    <div className="mt-10 sm:mt-16 w-full max-w-3xl space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <span className="w-1 h-1 sm:w-1.5 sm:h-1.5 bg-indigo-500 rounded-full"></span>
+          <span className="text-[9px] sm:text-xs font-black text-slate-400 uppercase tracking-[0.2em]">Saved Projects</span>
+        </div>
+        <label className="px-4 py-2 bg-slate-800/80 hover:bg-white hover:text-black text-white text-[9px] sm:text-[10px] font-black rounded-xl transition-all border border-slate-700 uppercase tracking-widest shadow-lg active:scale-95 cursor-pointer">
+          Import Project
+          <input type="file" className="hidden" accept=".json,application/json" onChange={handleImport} />
+        </label>
+      </div>
+
+      {pendingProject && (
+        <div className="p-4 rounded-2xl border border-indigo-500/40 bg-indigo-500/10 text-[10px] sm:text-xs text-indigo-200 font-bold">
+          Load <span className="font-mono text-white">{pendingProject.video.name}</span> via "Load Source" to resume "{pendingProject.name}".
+        </div>
+      )}
+
+      {projects.length > 0 ? (
+        <div className="space-y-2 max-h-[320px] overflow-y-auto pr-1">
+          {projects.map(project => (
+            <div
+              key={project.id}
+              className={`flex items-center justify-between gap-4 p-4 rounded-2xl border transition-all ${pendingProject?.id === project.id ? 'border-indigo-500/60 bg-indigo-500/5' : 'border-slate-800 bg-slate-900/50 hover:border-slate-700'}`}
+            >
+              <div className="min-w-0">
+                <p className="text-xs sm:text-sm font-bold text-slate-200 truncate">{project.name}</p>
+                <p className="text-[8px] sm:text-[10px] text-slate-500 uppercase tracking-widest mt-1">
+                  {project.subtitles.length} cues · {new Date(project.updatedAt).toLocaleString()}
+                </p>
+              </div>
+              <div className="flex space-x-2 flex-shrink-0">
+                {[
+                  { label: 'Open', action: () => onOpen(project) },
+                  { label: 'Export', action: () => onExport(project) },
+                  { label: 'Delete', action: () => onDelete(project.id) }
+                ].map(btn => (
+                  <button
+                    key={btn.label}
+                    onClick={btn.action}
+                    className="px-3 py-2 bg-slate-800/80 hover:bg-white hover:text-black text-white text-[8px] sm:text-[9px] font-black rounded-xl transition-all border border-slate-700 uppercase tracking-widest active:scale-95"
+                  >
+                    {btn.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-[9px] sm:text-[10px] text-slate-600 uppercase tracking-widest font-bold text-center py-4">No saved projects yet</p>
+      )}
+    </div>
+  );
+};
+
+export default ProjectList;
@@ -1,59 +1,256 @@
 
-import React, { useMemo, useEffect, useRef } from 'react';
-import { SubtitleEntry } from '../types';
+import React, { useMemo, useEffect, useRef, useState } from 'react';
+import { OCRLanguage, SubtitleEntry, SubtitleRegion, VideoMetadata } from '../types';
+import { EXPORT_FORMATS, ExportTextMode, SubtitleSerializer, downloadFile } from '../services/exporters';
+import { IMPORT_EXTENSIONS, parseSubtitleFile } from '../services/importers';
+import { updateCue, splitCue, canSplitAt, mergeWithNext, findNextInTrack, deleteCue, insertCue } from '../services/subtitleEditor';
+import { cueRegionId, filterTrack } from '../services/regions';
+import { TRANSLATION_LANGUAGES } from '../services/languages';
+import { LINT_PROFILES, CUSTOM_PROFILE_ID, LintIssue, LintProfile, customizeProfile, lintSubtitles, fixIssue, fixAll } from '../services/subtitleLinter';
 
 interface SubtitleResultProps {
   subtitles: SubtitleEntry[];
   currentTime: number;
   onJumpTo: (time: number) => void;
+  onChange: (subtitles: SubtitleEntry[]) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  regions: SubtitleRegion[];
+  activeRegionId: string;
+  metadata: VideoMetadata | null;
+  // Crop of the cue's region from the video, for checking the text against the pixels
+  onCaptureThumbnail: (sub: SubtitleEntry) => Promise<string | null>;
+  onLoadFrames: (ids: string[]) => Promise<(string | null)[]>;
+  translationLanguage: OCRLanguage;
+  onTranslationLanguageChange: (language: OCRLanguage) => void;
+  // Translates one region's track, or every track when null
+  onTranslate: (regionId: string | null) => void;
+  translateProgress: number | null; // 0-1 while a translation pass runs
 }
 
-const formatTime = (seconds: number) => {
-  const h = Math.floor(seconds / 3600);
-  const m = Math.floor((seconds % 3600) / 60);
-  const s = Math.floor(seconds % 60);
-  const ms = Math.floor((seconds % 1) * 1000);
-  return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')},${ms.toString().padStart(3, '0')}`;
+const NUDGE_STEP = 0.1;
+// Engine confidence below which a cue is flagged for review
+const LOW_CONFIDENCE = 0.7;
+
+const isLowConfidence = (sub: SubtitleEntry) => sub.confidence !== undefined && sub.confidence < LOW_CONFIDENCE;
+
+// The crops a cue was recognized from, loaded when its card is first shown
+const CueFrameStrip: React.FC<{ ids: string[]; onLoad: (ids: string[]) => Promise<(string | null)[]> }> = ({ ids, onLoad }) => {
+  const [frames, setFrames] = useState<(string | null)[] | null>(null);
+  const key = ids.join('|');
+
+  useEffect(() => {
+    let cancelled = false;
+    onLoad(ids)
+      .catch(err => {
+        console.error("Could not load cue frames:", err);
+        return [];
+      })
+      .then(loaded => { if (!cancelled) setFrames(loaded); });
+    return () => { cancelled = true; };
+  }, [key]);
+
+  const available = frames?.filter((f): f is string => f !== null) ?? [];
+  if (available.length === 0) return null;
+  return (
+    <div className="flex gap-1 mt-3 overflow-x-auto">
+      {available.map((src, i) => (
+        <img key={i} src={src} alt={`Source frame ${i + 1}`} className="h-8 sm:h-10 rounded-md border border-slate-800 bg-black flex-shrink-0" />
+      ))}
+    </div>
+  );
 };
 
-const SubtitleResult: React.FC<SubtitleResultProps> = ({ subtitles, currentTime, onJumpTo }) => {
+const toolButtonClass = "px-2 sm:px-3 py-1.5 bg-slate-800/80 hover:bg-white hover:text-black disabled:opacity-20 disabled:hover:bg-slate-800/80 disabled:hover:text-white text-white text-[8px] sm:text-[9px] font-black rounded-lg transition-all border border-slate-700 uppercase tracking-widest active:scale-95";
+
+const PROFILE_LIMITS: { key: Exclude<keyof LintProfile, 'id' | 'name'>; label: string; min: number; step: number }[] = [
+  { key: 'maxCps', label: 'CPS', min: 1, step: 1 },
+  { key: 'maxLineLength', label: 'Chars', min: 1, step: 1 },
+  { key: 'maxLines', label: 'Lines', min: 1, step: 1 },
+  { key: 'minDuration', label: 'Min s', min: 0, step: 0.05 },
+  { key: 'maxDuration', label: 'Max s', min: 0.1, step: 0.5 },
+  { key: 'minGap', label: 'Gap s', min: 0, step: 0.01 }
+];
+
+const SubtitleResult: React.FC<SubtitleResultProps> = ({
+  subtitles,
+  currentTime,
+  onJumpTo,
+  onChange,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
+  regions,
+  activeRegionId,
+  metadata,
+  onCaptureThumbnail,
+  onLoadFrames,
+  translationLanguage,
+  onTranslationLanguageChange,
+  onTranslate,
+  translateProgress
+}) => {
   const activeRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftText, setDraftText] = useState('');
+  const [draftTranslation, setDraftTranslation] = useState('');
+  const [showTranslation, setShowTranslation] = useState(true);
+  const [exportTextMode, setExportTextMode] = useState<ExportTextMode>('original');
+  const [trackId, setTrackId] = useState<string>('all');
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [reviewId, setReviewId] = useState<string | null>(null);
+  const [thumbnails, setThumbnails] = useState<Record<string, string | null>>({});
+  const [isChecking, setIsChecking] = useState(false);
+  const [profile, setProfile] = useState<LintProfile>(LINT_PROFILES[0]);
+
+  // Fall back to the combined view when the selected region is removed
+  const track = regions.find(r => r.id === trackId);
+  const trackCues = useMemo(
+    () => track ? filterTrack(subtitles, track.id, regions) : subtitles,
+    [subtitles, track, regions]
+  );
+  const lowConfidence = useMemo(() => trackCues.filter(isLowConfidence), [trackCues]);
+  const visible = isReviewing ? lowConfidence : trackCues;
+  const hasTranslation = useMemo(() => trackCues.some(s => s.translation), [trackCues]);
+  const targetRegionId = track?.id ?? activeRegionId;
+  const issues = useMemo(() => lintSubtitles(trackCues, regions, profile), [trackCues, regions, profile]);
+  const issuesByCue = useMemo(() => {
+    const byCue = new Map<string, LintIssue[]>();
+    issues.forEach(issue => byCue.set(issue.cueId, [...(byCue.get(issue.cueId) ?? []), issue]));
+    return byCue;
+  }, [issues]);
   
   const activeSubtitleId = useMemo(() => {
-    const active = subtitles.find(s => currentTime >= s.startTime && currentTime <= s.endTime);
+    const active = visible.find(s => currentTime >= s.startTime && currentTime <= s.endTime);
     return active?.id;
-  }, [subtitles, currentTime]);
+  }, [visible, currentTime]);
 
   useEffect(() => {
-    if (activeRef.current) {
+    if (activeRef.current && !editingId) {
       activeRef.current.scrollIntoView({ behavior: 'smooth', block: 'center' });
     }
-  }, [activeSubtitleId]);
-
-  const downloadFile = (content: string, filename: string, type: string) => {
-    const blob = new Blob([content], { type });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = filename;
-    a.click();
-    URL.revokeObjectURL(url);
+  }, [activeSubtitleId, editingId]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z' && e.key.toLowerCase() !== 'y') return;
+      e.preventDefault();
+      if (e.key.toLowerCase() === 'y' || e.shiftKey) onRedo();
+      else onUndo();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onUndo, onRedo]);
+
+  // Only the cue under review is cropped, as the seek fallback moves the player to take it.
+  // Cues with stored source frames already show them.
+  useEffect(() => {
+    const cue = reviewId ? subtitles.find(s => s.id === reviewId) : undefined;
+    if (!cue || cue.frameIds?.length || reviewId! in thumbnails) return;
+    let cancelled = false;
+    onCaptureThumbnail(cue)
+      .catch(err => {
+        console.error("Thumbnail capture failed:", err);
+        return null;
+      })
+      .then(thumbnail => { if (!cancelled) setThumbnails(t => ({ ...t, [cue.id]: thumbnail })); });
+    return () => { cancelled = true; };
+  }, [reviewId]);
+
+  const reviewCue = (sub: SubtitleEntry) => {
+    setReviewId(sub.id);
+    onJumpTo(sub.startTime);
   };
 
-  const exportSRT = () => {
-    let content = '';
-    subtitles.forEach((s, i) => {
-      content += `${i + 1}\n`;
-      content += `${formatTime(s.startTime)} --> ${formatTime(s.endTime)}\n`;
-      content += `${s.text}\n\n`;
-    });
-    downloadFile(content, 'subtitles.srt', 'text/plain');
+  const stepReview = (direction: 1 | -1) => {
+    if (lowConfidence.length === 0) return;
+    const index = lowConfidence.findIndex(s => s.id === reviewId);
+    const next = index < 0
+      ? lowConfidence[direction > 0 ? 0 : lowConfidence.length - 1]
+      : lowConfidence[(index + direction + lowConfidence.length) % lowConfidence.length];
+    reviewCue(next);
   };
 
-  const exportTXT = () => {
-    const content = subtitles.map(s => `[${s.startTime.toFixed(2)} - ${s.endTime.toFixed(2)}] ${s.text}`).join('\n');
-    downloadFile(content, 'subtitles.txt', 'text/plain');
+  // Accepting a reading (as is, an alternate or an edit) clears the flag and moves on
+  const confirmCue = (sub: SubtitleEntry, text = sub.text) => {
+    const remaining = lowConfidence.filter(s => s.id !== sub.id);
+    const next = remaining.find(s => s.startTime >= sub.startTime) ?? remaining[0];
+    onChange(updateCue(subtitles, sub.id, { text, confidence: undefined, alternates: undefined }));
+    if (next) reviewCue(next);
+    else setReviewId(null);
+  };
+
+  // Fixes apply to the whole list so cues of other tracks keep their place
+  const fixOne = (issue: LintIssue) => onChange(fixIssue(subtitles, issue, regions, profile));
+
+  const fixEverything = () => {
+    const fixed = fixAll(trackCues, regions, profile);
+    onChange(track
+      ? [...subtitles.filter(s => cueRegionId(s, regions) !== track.id), ...fixed].sort((a, b) => a.startTime - b.startTime)
+      : fixed);
+  };
+
+  const startEditing = (sub: SubtitleEntry) => {
+    setEditingId(sub.id);
+    setDraftText(sub.text);
+    setDraftTranslation(sub.translation ?? '');
+  };
+
+  // Text edits are committed on blur so each edit is a single undo step
+  const commitText = (sub: SubtitleEntry) => {
+    if (draftText !== sub.text) onChange(updateCue(subtitles, sub.id, { text: draftText, confidence: undefined, alternates: undefined }));
+  };
+
+  const commitTranslation = (sub: SubtitleEntry) => {
+    if (draftTranslation !== (sub.translation ?? '')) onChange(updateCue(subtitles, sub.id, { translation: draftTranslation || undefined }));
+  };
+
+  const handleInsert = () => {
+    const { subs, id } = insertCue(subtitles, currentTime, regions, targetRegionId);
+    onChange(subs);
+    setEditingId(id);
+    setDraftText('');
+  };
+
+  const handleDelete = (id: string) => {
+    onChange(deleteCue(subtitles, id));
+    setEditingId(null);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseSubtitleFile(file.name, await file.text());
+      if (imported.length === 0) throw new Error("No cues found.");
+      // Imports replace the target region's track and leave the others untouched. A JSON
+      // dump whose cues all name regions of this project restores those tracks instead.
+      const ownRegions = imported.every(s => regions.some(r => r.id === s.regionId));
+      const tagged = ownRegions ? imported : imported.map(s => ({ ...s, regionId: targetRegionId }));
+      const replaced = new Set(tagged.map(s => s.regionId));
+      const kept = subtitles.filter(s => !replaced.has(cueRegionId(s, regions)));
+      onChange([...kept, ...tagged].sort((a, b) => a.startTime - b.startTime));
+      setEditingId(null);
+    } catch (err) {
+      console.error(err);
+      alert(`Could not import ${file.name}. ${err instanceof Error ? err.message : ''}`);
+    }
+  };
+
+  const exportAs = (format: SubtitleSerializer) => {
+    const textMode = hasTranslation ? exportTextMode : 'original';
+    // The whole track, even while only its low-confidence cues are listed for review
+    const content = format.serialize(trackCues, { regions, metadata, textMode });
+    const trackSuffix = track ? `.${track.name.trim().replace(/[^\w-]+/g, '_') || track.id}` : '';
+    const suffix = textMode === 'original' ? trackSuffix : `${trackSuffix}.${textMode === 'both' ? 'dual' : translationLanguage.replace(/\W+/g, '_')}`;
+    downloadFile(content, `subtitles${suffix}.${format.extension}`, format.mimeType);
   };
 
   return (
@@ -63,26 +260,173 @@ const SubtitleResult: React.FC<SubtitleResultProps> = ({ subtitles, currentTime,
           <div>
             <h3 className="text-xl sm:text-2xl font-black text-white tracking-tight">Transcription</h3>
             <p className="text-[9px] sm:text-[10px] text-indigo-400 uppercase tracking-[0.3em] mt-1 font-bold">
-              {subtitles.length} Sync Nodes
+              {visible.length} Sync Nodes
+              {lowConfidence.length > 0 && <span className="text-amber-400"> · {lowConfidence.length} Uncertain</span>}
             </p>
           </div>
-          <div className="flex space-x-2 w-full sm:w-auto">
-            {[
-              { label: 'SRT', action: exportSRT },
-              { label: 'TXT', action: exportTXT }
-            ].map(btn => (
+          <div className="flex flex-wrap gap-2 w-full sm:w-auto sm:max-w-[60%] sm:justify-end">
+            {hasTranslation && (
+              <select
+                value={exportTextMode}
+                onChange={e => setExportTextMode(e.target.value as ExportTextMode)}
+                className="bg-slate-900 border border-slate-700 rounded-xl px-2 py-2 text-[9px] sm:text-[10px] font-black text-white uppercase tracking-widest"
+                title="Text written to exported files"
+              >
+                <option value="original">Original</option>
+                <option value="translation">Translation</option>
+                <option value="both">Dual</option>
+              </select>
+            )}
+            {EXPORT_FORMATS.map(format => (
               <button 
-                key={btn.label}
-                disabled={subtitles.length === 0}
-                onClick={btn.action}
+                key={format.label}
+                disabled={trackCues.length === 0}
+                onClick={() => exportAs(format)}
                 className="flex-1 sm:flex-none px-4 py-2 bg-slate-800/80 hover:bg-white hover:text-black disabled:opacity-20 text-white text-[9px] sm:text-[10px] font-black rounded-xl transition-all border border-slate-700 uppercase tracking-widest shadow-lg active:scale-95"
               >
-                {btn.label}
+                {format.label}
               </button>
             ))}
           </div>
         </div>
         
+        <div className="flex space-x-2 mb-4">
+          <button onClick={onUndo} disabled={!canUndo} className={toolButtonClass} title="Undo (Ctrl+Z)">Undo</button>
+          <button onClick={onRedo} disabled={!canRedo} className={toolButtonClass} title="Redo (Ctrl+Shift+Z)">Redo</button>
+          <label className={`${toolButtonClass} cursor-pointer ml-auto`}>
+            Import
+            <input type="file" className="hidden" accept={IMPORT_EXTENSIONS.join(',')} onChange={handleImport} />
+          </label>
+          <button onClick={handleInsert} className={toolButtonClass}>+ Cue at {currentTime.toFixed(2)}s</button>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-4">
+          <select
+            value={translationLanguage}
+            onChange={e => onTranslationLanguageChange(e.target.value as OCRLanguage)}
+            disabled={translateProgress !== null}
+            className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-[8px] sm:text-[9px] font-black text-white uppercase tracking-widest disabled:opacity-20"
+            title="Translation language"
+          >
+            {TRANSLATION_LANGUAGES.map(lang => <option key={lang} value={lang}>{lang}</option>)}
+          </select>
+          <button
+            onClick={() => onTranslate(track?.id ?? null)}
+            disabled={translateProgress !== null || trackCues.length === 0}
+            className={toolButtonClass}
+            title="Translate this track with Gemini, using neighbouring lines as context"
+          >
+            {translateProgress !== null ? `Translating ${Math.round(translateProgress * 100)}%` : hasTranslation ? 'Retranslate' : 'Translate'}
+          </button>
+          {hasTranslation && (
+            <button
+              onClick={() => setShowTranslation(!showTranslation)}
+              className={`${toolButtonClass} ${showTranslation ? '!bg-indigo-600 !border-indigo-500' : ''}`}
+            >
+              Side by side
+            </button>
+          )}
+        </div>
+
+        <div className="flex space-x-2 mb-4">
+          <button
+            onClick={() => { setIsReviewing(!isReviewing); setReviewId(null); }}
+            disabled={!isReviewing && lowConfidence.length === 0}
+            className={`${toolButtonClass} ${isReviewing ? '!bg-amber-500 !border-amber-400 !text-black' : ''}`}
+            title={`Show only cues the engine was less than ${Math.round(LOW_CONFIDENCE * 100)}% sure of`}
+          >
+            Review Uncertain ({lowConfidence.length})
+          </button>
+          {isReviewing && (
+            <>
+              <button onClick={() => stepReview(-1)} disabled={lowConfidence.length === 0} className={toolButtonClass}>Prev</button>
+              <button onClick={() => stepReview(1)} disabled={lowConfidence.length === 0} className={toolButtonClass}>Next</button>
+            </>
+          )}
+          <button
+            onClick={() => setIsChecking(!isChecking)}
+            disabled={trackCues.length === 0}
+            className={`${toolButtonClass} ml-auto ${isChecking ? '!bg-rose-500 !border-rose-400 !text-black' : ''}`}
+            title="Check timing, reading speed and line length against a delivery profile"
+          >
+            Check ({issues.length})
+          </button>
+        </div>
+
+        {isChecking && (
+          <div className="mb-4 p-3 rounded-2xl bg-black/30 border border-white/5 space-y-3">
+            <div className="flex flex-wrap gap-2">
+              <select
+                value={profile.id}
+                onChange={e => setProfile(LINT_PROFILES.find(p => p.id === e.target.value) ?? profile)}
+                className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-[8px] sm:text-[9px] font-black text-white uppercase tracking-widest"
+              >
+                {LINT_PROFILES.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                {profile.id === CUSTOM_PROFILE_ID && <option value={CUSTOM_PROFILE_ID}>{profile.name}</option>}
+              </select>
+              <button onClick={fixEverything} disabled={!issues.some(i => i.fixable)} className={toolButtonClass}>
+                Fix All ({issues.filter(i => i.fixable).length})
+              </button>
+            </div>
+            {/* Changing any limit turns the chosen preset into a custom profile */}
+            <div className="flex flex-wrap gap-2">
+              {PROFILE_LIMITS.map(limit => (
+                <label key={limit.key} className="flex items-center gap-1 text-[8px] sm:text-[9px] text-slate-500 font-bold uppercase tracking-widest">
+                  {limit.label}
+                  <input
+                    type="number"
+                    min={limit.min}
+                    step={limit.step}
+                    value={Number(profile[limit.key].toFixed(2))}
+                    onChange={e => {
+                      const value = Number(e.target.value);
+                      if (e.target.value !== '' && value >= limit.min) setProfile(customizeProfile(profile, { [limit.key]: value }));
+                    }}
+                    className="w-14 bg-slate-900 border border-slate-700 rounded-lg px-1.5 py-1 text-[9px] sm:text-[10px] font-mono text-white"
+                  />
+                </label>
+              ))}
+            </div>
+            {issues.length > 0 ? (
+              <div className="space-y-1 max-h-40 overflow-y-auto pr-1">
+                {issues.map((issue, i) => {
+                  const cue = trackCues.find(s => s.id === issue.cueId)!;
+                  return (
+                    <div
+                      key={`${issue.cueId}-${issue.rule}-${i}`}
+                      onClick={() => onJumpTo(cue.startTime)}
+                      className="flex items-center gap-2 p-2 rounded-lg hover:bg-white/5 cursor-pointer"
+                    >
+                      <span className={`w-1.5 h-1.5 rounded-full flex-shrink-0 ${issue.severity === 'error' ? 'bg-rose-500' : 'bg-amber-400'}`}></span>
+                      <span className="text-[8px] sm:text-[9px] font-mono text-slate-500 flex-shrink-0">{cue.startTime.toFixed(2)}s</span>
+                      <span className="text-[9px] sm:text-[10px] text-slate-300 flex-1 min-w-0 truncate" title={cue.text}>{issue.message}</span>
+                      {issue.fixable && (
+                        <button onClick={(e) => { e.stopPropagation(); fixOne(issue); }} className={toolButtonClass}>Fix</button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            ) : (
+              <p className="text-[8px] sm:text-[9px] text-emerald-400 uppercase tracking-widest font-bold">No issues for {profile.name}</p>
+            )}
+          </div>
+        )}
+
+        {regions.length > 1 && (
+          <div className="flex flex-wrap gap-2 mb-4">
+            {[{ id: 'all', name: 'All' }, ...regions].map(option => (
+              <button
+                key={option.id}
+                onClick={() => setTrackId(option.id)}
+                className={`${toolButtonClass} ${(track?.id ?? 'all') === option.id ? '!bg-indigo-600 !border-indigo-500' : ''}`}
+              >
+                {option.name || 'Untitled'}
+              </button>
+            ))}
+          </div>
+        )}
+
         <div className="relative">
            <div className="absolute inset-y-0 left-4 flex items-center pointer-events-none">
              <svg className="w-3 h-3 sm:w-4 sm:h-4 text-slate-600" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg>
@@ -94,20 +438,29 @@ const SubtitleResult: React.FC<SubtitleResultProps> = ({ subtitles, currentTime,
       </div>
 
       <div className="flex-1 overflow-y-auto p-4 sm:p-6 space-y-3 sm:space-y-4 custom-scrollbar bg-black/20" ref={containerRef}>
-        {subtitles.length > 0 ? (
-          subtitles.map((sub) => {
+        {visible.length > 0 ? (
+          visible.map(sub => {
             const isActive = activeSubtitleId === sub.id;
+            const isEditing = editingId === sub.id;
+            const isUncertain = isLowConfidence(sub);
+            const isUnderReview = isReviewing && reviewId === sub.id;
+            const cueIssues = isChecking ? issuesByCue.get(sub.id) : undefined;
+            const region = regions.find(r => r.id === cueRegionId(sub, regions));
+            // The recognized language is only news when the region allows more than one
+            const showLanguage = sub.language && (region?.language === OCRLanguage.Auto || region?.mixedLanguages?.length);
             const status = currentTime < sub.startTime ? 'pending' : (currentTime > sub.endTime ? 'completed' : 'active');
 
             return (
               <div 
                 key={sub.id}
                 ref={isActive ? activeRef : null}
-                onClick={() => onJumpTo(sub.startTime)}
-                className={`group/card p-4 sm:p-6 rounded-2xl sm:rounded-3xl border transition-all duration-500 cursor-pointer relative overflow-hidden ${
+                onClick={() => isEditing ? undefined : isReviewing ? reviewCue(sub) : onJumpTo(sub.startTime)}
+                className={`group/card p-4 sm:p-6 rounded-2xl sm:rounded-3xl border transition-all duration-500 relative overflow-hidden ${isEditing ? '' : 'cursor-pointer'} ${
                   isActive 
                     ? 'subtitle-active border-indigo-500 shadow-[0_0_20px_rgba(99,102,241,0.1)]' 
-                    : 'bg-slate-900/30 border-white/5 hover:border-slate-700 hover:bg-slate-800/40'
+                    : isUncertain
+                      ? 'bg-amber-500/5 border-amber-500/30 hover:border-amber-400/60'
+                      : 'bg-slate-900/30 border-white/5 hover:border-slate-700 hover:bg-slate-800/40'
                 }`}
               >
                 {isActive && (
@@ -123,18 +476,126 @@ const SubtitleResult: React.FC<SubtitleResultProps> = ({ subtitles, currentTime,
                     }`}>
                       {sub.startTime.toFixed(2)}s — {sub.endTime.toFixed(2)}s
                     </span>
+                    {isUncertain && (
+                      <span className="text-[8px] sm:text-[9px] font-black text-amber-400 uppercase tracking-widest" title="Engine confidence">
+                        {Math.round(sub.confidence! * 100)}%
+                      </span>
+                    )}
+                    {!track && regions.length > 1 && (
+                      <span className="text-[8px] sm:text-[9px] font-black text-slate-500 uppercase tracking-widest">
+                        {region?.name}
+                      </span>
+                    )}
+                    {showLanguage && (
+                      <span className="text-[8px] sm:text-[9px] font-black text-cyan-500 uppercase tracking-widest">{sub.language}</span>
+                    )}
+                    {cueIssues && (
+                      <span
+                        className={`text-[8px] sm:text-[9px] font-black uppercase tracking-widest ${cueIssues.some(i => i.severity === 'error') ? 'text-rose-400' : 'text-amber-400'}`}
+                        title={cueIssues.map(i => i.message).join('\n')}
+                      >
+                        {cueIssues.length} {cueIssues.length === 1 ? 'issue' : 'issues'}
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <button
+                      onClick={(e) => { e.stopPropagation(); isEditing ? setEditingId(null) : startEditing(sub); }}
+                      className={`text-[8px] sm:text-[9px] font-black uppercase tracking-widest transition-colors ${isEditing ? 'text-indigo-300' : 'text-slate-600 hover:text-slate-300 opacity-0 group-hover/card:opacity-100'}`}
+                    >
+                      {isEditing ? 'Done' : 'Edit'}
+                    </button>
+                    <div className={`w-1 h-1 rounded-full transition-all duration-500 ${
+                      status === 'active' ? 'bg-indigo-400 scale-150 shadow-[0_0_10px_rgba(99,102,241,1)]' : 
+                      status === 'completed' ? 'bg-slate-700' : 'bg-slate-800'
+                    }`}></div>
                   </div>
-                  <div className={`w-1 h-1 rounded-full transition-all duration-500 ${
-                    status === 'active' ? 'bg-indigo-400 scale-150 shadow-[0_0_10px_rgba(99,102,241,1)]' : 
-                    status === 'completed' ? 'bg-slate-700' : 'bg-slate-800'
-                  }`}></div>
                 </div>
                 
-                <p className={`text-xs sm:text-sm leading-relaxed transition-all ${
-                  isActive ? 'text-white font-bold' : 'text-slate-400 group-hover/card:text-slate-200'
-                }`}>
-                  {sub.text}
-                </p>
+                {isEditing ? (
+                  <div className="space-y-3" onClick={(e) => e.stopPropagation()}>
+                    <textarea
+                      autoFocus
+                      dir="auto"
+                      value={draftText}
+                      onChange={(e) => setDraftText(e.target.value)}
+                      onBlur={() => commitText(sub)}
+                      rows={Math.max(2, draftText.split('\n').length)}
+                      className="w-full bg-black/40 border border-slate-700 text-white text-xs sm:text-sm rounded-xl p-3 outline-none focus:ring-2 focus:ring-indigo-500/50 resize-none"
+                    />
+                    {hasTranslation && (
+                      <textarea
+                        dir="auto"
+                        value={draftTranslation}
+                        onChange={(e) => setDraftTranslation(e.target.value)}
+                        onBlur={() => commitTranslation(sub)}
+                        placeholder={`${translationLanguage} translation`}
+                        rows={Math.max(2, draftTranslation.split('\n').length)}
+                        className="w-full bg-black/40 border border-cyan-900 text-cyan-100 text-xs sm:text-sm rounded-xl p-3 outline-none focus:ring-2 focus:ring-cyan-500/50 resize-none"
+                      />
+                    )}
+                    {(['startTime', 'endTime'] as const).map(edge => (
+                      <div key={edge} className="flex items-center space-x-2">
+                        <span className="w-8 text-[8px] sm:text-[9px] font-black text-slate-500 uppercase tracking-widest">{edge === 'startTime' ? 'In' : 'Out'}</span>
+                        <button className={toolButtonClass} onClick={() => onChange(updateCue(subtitles, sub.id, { [edge]: sub[edge] - NUDGE_STEP }))}>−{NUDGE_STEP}</button>
+                        <button className={toolButtonClass} onClick={() => onChange(updateCue(subtitles, sub.id, { [edge]: sub[edge] + NUDGE_STEP }))}>+{NUDGE_STEP}</button>
+                        <button className={toolButtonClass} onClick={() => onChange(updateCue(subtitles, sub.id, { [edge]: currentTime }))}>Playhead</button>
+                      </div>
+                    ))}
+                    <div className="flex flex-wrap gap-2 pt-1">
+                      <button
+                        className={toolButtonClass}
+                        disabled={!canSplitAt(sub, currentTime)}
+                        onClick={() => onChange(splitCue(subtitles, sub.id, currentTime))}
+                      >
+                        Split at playhead
+                      </button>
+                      <button className={toolButtonClass} disabled={!findNextInTrack(subtitles, sub.id, regions)} onClick={() => onChange(mergeWithNext(subtitles, sub.id, regions))}>Merge next</button>
+                      <button className={`${toolButtonClass} hover:!bg-rose-500 hover:!text-white`} onClick={() => handleDelete(sub.id)}>Delete</button>
+                    </div>
+                  </div>
+                ) : (
+                  <p dir="auto" className={`text-xs sm:text-sm leading-relaxed whitespace-pre-line transition-all ${
+                    isActive ? 'text-white font-bold' : 'text-slate-400 group-hover/card:text-slate-200'
+                  }`}>
+                    {sub.text || <span className="italic text-slate-600">Empty cue</span>}
+                  </p>
+                )}
+
+                {!isEditing && showTranslation && sub.translation && (
+                  <p dir="auto" className="mt-2 text-xs sm:text-sm leading-relaxed whitespace-pre-line text-cyan-300/80 border-l-2 border-cyan-500/40 pl-3">
+                    {sub.translation}
+                  </p>
+                )}
+
+                {sub.frameIds && sub.frameIds.length > 0 && <CueFrameStrip ids={sub.frameIds} onLoad={onLoadFrames} />}
+
+                {isUnderReview && !isEditing && (
+                  <div className="mt-3 sm:mt-4 space-y-3" onClick={(e) => e.stopPropagation()}>
+                    {sub.frameIds?.length ? null : reviewId! in thumbnails ? (
+                      thumbnails[reviewId!]
+                        ? <img src={thumbnails[reviewId!]!} alt="Captured subtitle region" className="w-full rounded-xl border border-slate-700 bg-black" />
+                        : <p className="text-[8px] sm:text-[9px] text-slate-600 uppercase tracking-widest font-bold">No frame available</p>
+                    ) : (
+                      <p className="text-[8px] sm:text-[9px] text-slate-500 uppercase tracking-widest font-bold animate-pulse">Capturing frame...</p>
+                    )}
+                    {sub.alternates?.map(alternate => (
+                      <button
+                        key={alternate}
+                        onClick={() => confirmCue(sub, alternate)}
+                        dir="auto"
+                        className="block w-full text-start px-3 py-2 rounded-xl border border-slate-700 bg-black/30 hover:border-amber-400 text-xs text-slate-300 whitespace-pre-line transition-all"
+                        title="Use this reading"
+                      >
+                        {alternate}
+                      </button>
+                    ))}
+                    <div className="flex flex-wrap gap-2">
+                      <button onClick={() => confirmCue(sub)} className={`${toolButtonClass} hover:!bg-emerald-500 hover:!text-white`}>Confirm</button>
+                      <button onClick={() => startEditing(sub)} className={toolButtonClass}>Correct</button>
+                    </div>
+                  </div>
+                )}
               </div>
             );
           })
@@ -0,0 +1,135 @@
+import React from 'react';
+import { OCRLanguage, ReplaceRule, TextCleanupSettings } from '../types';
+import { DEFAULT_CLEANUP, compileRule, createReplaceRule, parseCleanupFile, presetsFor, serializeCleanup } from '../services/textCleanup';
+import { downloadFile } from '../services/exporters';
+
+interface TextCleanupPanelProps {
+  settings: TextCleanupSettings;
+  onChange: (settings: TextCleanupSettings) => void;
+  languages: OCRLanguage[]; // of the active zone, to show which presets apply
+  onApplyToTrack: () => void;
+  canApply: boolean;
+  disabled: boolean;
+}
+
+const toggleClass = (active: boolean) =>
+  `px-3 py-2 rounded-xl text-[8px] sm:text-[10px] font-black uppercase tracking-widest transition-all border disabled:opacity-40 ${active ? 'bg-indigo-600 text-white border-indigo-500' : 'bg-slate-900 text-slate-400 border-slate-800 hover:text-slate-200'}`;
+
+const smallButtonClass = "px-3 py-1.5 bg-slate-800 text-slate-400 hover:text-white rounded-lg transition-all border border-slate-700 text-[8px] sm:text-[9px] font-black uppercase tracking-widest disabled:opacity-40";
+
+const inputClass = "min-w-0 bg-black/40 border border-slate-700 text-white text-[10px] sm:text-xs font-mono rounded-lg px-2 py-1.5 outline-none focus:ring-2 focus:ring-indigo-500/50";
+
+const TextCleanupPanel: React.FC<TextCleanupPanelProps> = ({
+  settings,
+  onChange,
+  languages,
+  onApplyToTrack,
+  canApply,
+  disabled
+}) => {
+  const update = (patch: Partial<TextCleanupSettings>) => onChange({ ...settings, ...patch });
+  const updateRule = (id: string, patch: Partial<ReplaceRule>) =>
+    update({ rules: settings.rules.map(r => r.id === id ? { ...r, ...patch } : r) });
+  const presets = presetsFor(languages);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onChange(parseCleanupFile(await file.text()));
+    } catch (err) {
+      console.error(err);
+      alert(`Could not import ${file.name}. ${err instanceof Error ? err.message : ''}`);
+    }
+  };
+
+  return (
+    <div className="glass-panel p-4 sm:p-8 rounded-3xl md:rounded-[2.5rem] shadow-2xl space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex items-center space-x-2">
+          <span className="w-1 h-1 sm:w-1.5 sm:h-1.5 bg-emerald-500 rounded-full"></span>
+          <label className="text-[9px] sm:text-xs font-black text-slate-400 uppercase tracking-[0.2em]">Text Cleanup</label>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={onApplyToTrack} disabled={disabled || !canApply} className={smallButtonClass} title="Run the cleanup over the cues already extracted">
+            Apply to track
+          </button>
+          <label className={`${smallButtonClass} cursor-pointer`}>
+            Import
+            <input type="file" className="hidden" accept=".json,application/json" onChange={handleImport} />
+          </label>
+          <button onClick={() => downloadFile(serializeCleanup(settings), 'text-cleanup.json', 'application/json')} className={smallButtonClass}>
+            Export
+          </button>
+          <button onClick={() => onChange(DEFAULT_CLEANUP)} disabled={disabled} className={smallButtonClass}>Reset</button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={() => update({ normalize: !settings.normalize })} disabled={disabled} className={toggleClass(settings.normalize)}>
+          Normalize
+        </button>
+        <span className="text-[8px] sm:text-[10px] text-slate-500 uppercase tracking-widest font-bold">
+          {presets.length > 0 ? presets.map(p => p.name).join(' · ') : 'No presets for this zone\'s languages'}
+        </span>
+      </div>
+
+      <div className="space-y-3 bg-black/30 p-4 sm:p-6 rounded-2xl sm:rounded-3xl border border-white/5">
+        <div className="flex justify-between items-center">
+          <span className="text-[8px] sm:text-[10px] text-slate-500 font-bold uppercase">Find &amp; Replace</span>
+          <button onClick={() => update({ rules: [...settings.rules, createReplaceRule()] })} disabled={disabled} className={smallButtonClass}>+ Rule</button>
+        </div>
+        {settings.rules.map(rule => {
+          const invalid = rule.isRegex && rule.find !== '' && compileRule(rule) === null;
+          return (
+            <div key={rule.id} className={`flex items-center gap-2 ${rule.enabled ? '' : 'opacity-40'}`}>
+              <input type="checkbox" checked={rule.enabled} disabled={disabled} onChange={() => updateRule(rule.id, { enabled: !rule.enabled })} className="accent-indigo-500" />
+              <input
+                value={rule.find}
+                disabled={disabled}
+                onChange={(e) => updateRule(rule.id, { find: e.target.value })}
+                placeholder="Find"
+                className={`${inputClass} flex-1 ${invalid ? '!border-rose-500' : ''}`}
+                title={invalid ? 'Not a valid regular expression' : undefined}
+              />
+              <input
+                value={rule.replace}
+                disabled={disabled}
+                onChange={(e) => updateRule(rule.id, { replace: e.target.value })}
+                placeholder={rule.isRegex ? 'Replace ($1…)' : 'Replace'}
+                className={`${inputClass} flex-1`}
+              />
+              <button onClick={() => updateRule(rule.id, { isRegex: !rule.isRegex })} disabled={disabled} className={toggleClass(rule.isRegex)} title="Treat the pattern as a regular expression">.*</button>
+              <button onClick={() => update({ rules: settings.rules.filter(r => r.id !== rule.id) })} disabled={disabled} className="text-slate-600 hover:text-rose-400 text-xs font-black px-1">×</button>
+            </div>
+          );
+        })}
+        {settings.rules.length === 0 && (
+          <p className="text-[8px] sm:text-[10px] text-slate-600 uppercase tracking-widest font-bold">No rules yet</p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {([
+          { key: 'glossary', label: 'Glossary', hint: 'One name or term per line, spelled as it should appear' },
+          { key: 'blacklist', label: 'Watermark Blacklist', hint: 'One phrase per line, removed wherever it is read' }
+        ] as const).map(list => (
+          <div key={list.key} className="space-y-2">
+            <span className="text-[8px] sm:text-[10px] text-slate-500 font-bold uppercase">{list.label}</span>
+            <textarea
+              value={settings[list.key].join('\n')}
+              disabled={disabled}
+              onChange={(e) => update({ [list.key]: e.target.value.split('\n') })}
+              placeholder={list.hint}
+              rows={4}
+              className="w-full bg-black/40 border border-slate-700 text-white text-[10px] sm:text-xs rounded-xl p-3 outline-none focus:ring-2 focus:ring-indigo-500/50 resize-y"
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TextCleanupPanel;
@@ -0,0 +1,312 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SubtitleEntry, SubtitleRegion } from '../types';
+import { Waveform } from '../services/audioTrack';
+import { SpeechSegment } from '../services/speechAlignment';
+import { updateCue } from '../services/subtitleEditor';
+import { cueRegionId } from '../services/regions';
+
+interface TimelineProps {
+  duration: number;
+  currentTime: number;
+  onSeek: (time: number) => void;
+  subtitles: SubtitleEntry[];
+  onChange: (subtitles: SubtitleEntry[]) => void; // once per finished drag, so each retime is one undo step
+  regions: SubtitleRegion[];
+  activeRegionId: string;
+  timeRange: { start: number; end: number };
+  setTimeRange: (range: { start: number; end: number }) => void;
+  waveform: Waveform | null;
+  speech: SpeechSegment[] | null;
+  isLoadingWaveform: boolean;
+  onLoadWaveform: () => void;
+  disabled: boolean;
+}
+
+type Drag =
+  | { kind: 'cue'; mode: 'move' | 'start' | 'end'; id: string; originX: number; originStart: number; originEnd: number }
+  | { kind: 'range'; edge: 'start' | 'end' };
+
+const RULER_HEIGHT = 18;
+const WAVE_HEIGHT = 48;
+const LANE_HEIGHT = 28;
+const MIN_VIEW = 2; // seconds visible at the deepest zoom
+const MIN_CUE = 0.1;
+const MIN_RANGE = 0.5;
+const ZOOM_STEP = 1.5;
+const TICK_STEPS = [0.1, 0.5, 1, 2, 5, 10, 30, 60, 120, 300, 600, 1800];
+const MIN_TICK_PX = 70;
+
+const formatTick = (t: number, step: number) => {
+  const m = Math.floor(t / 60);
+  const s = t % 60;
+  return `${m}:${s.toFixed(step < 1 ? 1 : 0).padStart(step < 1 ? 4 : 2, '0')}`;
+};
+
+const toolButtonClass = "px-2 sm:px-3 py-1.5 bg-slate-800/80 hover:bg-white hover:text-black disabled:opacity-20 disabled:hover:bg-slate-800/80 disabled:hover:text-white text-white text-[8px] sm:text-[9px] font-black rounded-lg transition-all border border-slate-700 uppercase tracking-widest active:scale-95";
+
+const Timeline: React.FC<TimelineProps> = ({
+  duration,
+  currentTime,
+  onSeek,
+  subtitles,
+  onChange,
+  regions,
+  activeRegionId,
+  timeRange,
+  setTimeRange,
+  waveform,
+  speech,
+  isLoadingWaveform,
+  onLoadWaveform,
+  disabled
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [width, setWidth] = useState(0);
+  const [view, setView] = useState({ start: 0, end: duration });
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const [draft, setDraft] = useState<{ id: string; startTime: number; endTime: number } | null>(null);
+
+  const span = Math.max(view.end - view.start, 0.001);
+  const toX = (t: number) => ((t - view.start) / span) * width;
+  const toTime = (x: number) => view.start + (x / width) * span;
+  const waveHeight = waveform ? WAVE_HEIGHT : 0;
+  const lanesTop = RULER_HEIGHT + waveHeight;
+  const height = lanesTop + regions.length * LANE_HEIGHT;
+
+  useEffect(() => setView({ start: 0, end: duration }), [duration]);
+
+  useEffect(() => {
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width));
+    if (containerRef.current) observer.observe(containerRef.current);
+    return () => observer.disconnect();
+  }, []);
+
+  const clampView = (start: number, length: number) => {
+    const size = Math.min(duration, Math.max(MIN_VIEW, length));
+    const from = Math.min(Math.max(0, start), duration - size);
+    return { start: from, end: from + size };
+  };
+
+  const zoom = (factor: number, anchor = (view.start + view.end) / 2) => {
+    const size = span * factor;
+    setView(clampView(anchor - (anchor - view.start) * (size / span), size));
+  };
+
+  // Ctrl/Cmd + wheel zooms around the pointer and horizontal wheel pans; plain
+  // vertical scrolling is left to the page. React's wheel handler is passive.
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      if (e.ctrlKey || e.metaKey) {
+        e.preventDefault();
+        const anchor = toTime(e.clientX - el.getBoundingClientRect().left);
+        zoom(e.deltaY > 0 ? ZOOM_STEP : 1 / ZOOM_STEP, anchor);
+      } else if (e.shiftKey || Math.abs(e.deltaX) > Math.abs(e.deltaY)) {
+        e.preventDefault();
+        const delta = (e.shiftKey ? e.deltaY : e.deltaX) / width * span;
+        setView(clampView(view.start + delta, span));
+      }
+    };
+    el.addEventListener('wheel', onWheel, { passive: false });
+    return () => el.removeEventListener('wheel', onWheel);
+  });
+
+  // Keep the playhead in view while zoomed in, unless the user is dragging
+  useEffect(() => {
+    if (drag || span >= duration) return;
+    if (currentTime < view.start || currentTime > view.end) setView(clampView(currentTime - span * 0.1, span));
+  }, [currentTime]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !waveform || width === 0) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = Math.round(width * ratio);
+    canvas.height = Math.round(WAVE_HEIGHT * ratio);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, width, WAVE_HEIGHT);
+    ctx.fillStyle = 'rgba(34, 211, 238, 0.55)';
+    const mid = WAVE_HEIGHT / 2;
+    for (let x = 0; x < width; x++) {
+      const from = Math.floor(toTime(x) * waveform.peaksPerSecond);
+      const to = Math.max(from + 1, Math.floor(toTime(x + 1) * waveform.peaksPerSecond));
+      let peak = 0;
+      for (let i = Math.max(0, from); i < Math.min(waveform.peaks.length, to); i++) peak = Math.max(peak, waveform.peaks[i]);
+      const h = Math.max(0.5, peak * mid);
+      ctx.fillRect(x, mid - h, 1, h * 2);
+    }
+  }, [waveform, width, view]);
+
+  useEffect(() => {
+    if (!drag) return;
+
+    const onMove = (e: MouseEvent) => {
+      if (drag.kind === 'range') {
+        const t = toTime(e.clientX - containerRef.current!.getBoundingClientRect().left);
+        setTimeRange(drag.edge === 'start'
+          ? { start: Math.min(Math.max(0, t), timeRange.end - MIN_RANGE), end: timeRange.end }
+          : { start: timeRange.start, end: Math.max(Math.min(duration, t), timeRange.start + MIN_RANGE) });
+        return;
+      }
+      const dt = ((e.clientX - drag.originX) / width) * span;
+      const length = drag.originEnd - drag.originStart;
+      if (drag.mode === 'move') {
+        const startTime = Math.min(Math.max(0, drag.originStart + dt), duration - length);
+        setDraft({ id: drag.id, startTime, endTime: startTime + length });
+      } else if (drag.mode === 'start') {
+        setDraft({ id: drag.id, startTime: Math.min(Math.max(0, drag.originStart + dt), drag.originEnd - MIN_CUE), endTime: drag.originEnd });
+      } else {
+        setDraft({ id: drag.id, startTime: drag.originStart, endTime: Math.max(Math.min(duration, drag.originEnd + dt), drag.originStart + MIN_CUE) });
+      }
+    };
+
+    const onUp = () => {
+      if (drag.kind === 'cue') {
+        if (draft && (draft.startTime !== drag.originStart || draft.endTime !== drag.originEnd)) {
+          onChange(updateCue(subtitles, drag.id, { startTime: draft.startTime, endTime: draft.endTime }));
+        } else {
+          // A click without movement jumps to the cue
+          onSeek(drag.originStart);
+        }
+      }
+      setDrag(null);
+      setDraft(null);
+    };
+
+    window.addEventListener('mousemove', onMove);
+    window.addEventListener('mouseup', onUp);
+    return () => {
+      window.removeEventListener('mousemove', onMove);
+      window.removeEventListener('mouseup', onUp);
+    };
+  }, [drag, draft, subtitles, timeRange, width, span, view]);
+
+  const startCueDrag = (e: React.MouseEvent, sub: SubtitleEntry, mode: 'move' | 'start' | 'end') => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (disabled) return onSeek(sub.startTime);
+    setDrag({ kind: 'cue', mode, id: sub.id, originX: e.clientX, originStart: sub.startTime, originEnd: sub.endTime });
+  };
+
+  const tickStep = TICK_STEPS.find(step => (step / span) * width >= MIN_TICK_PX) ?? TICK_STEPS[TICK_STEPS.length - 1];
+  const ticks: number[] = [];
+  for (let t = Math.ceil(view.start / tickStep) * tickStep; t <= view.end; t += tickStep) ticks.push(t);
+
+  return (
+    <div className="glass-panel p-4 sm:p-6 rounded-2xl md:rounded-[2rem] space-y-3 shadow-2xl">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center space-x-2">
+          <span className="w-1 h-1 sm:w-1.5 sm:h-1.5 bg-violet-500 rounded-full"></span>
+          <span className="text-[9px] sm:text-xs font-black text-slate-400 uppercase tracking-[0.2em]">Timeline</span>
+          <span className="hidden sm:inline text-[8px] text-slate-600 uppercase tracking-widest font-bold">Ctrl + wheel to zoom · drag cues to retime</span>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={() => zoom(1 / ZOOM_STEP)} disabled={span <= MIN_VIEW} className={toolButtonClass}>+</button>
+          <button onClick={() => zoom(ZOOM_STEP)} disabled={span >= duration} className={toolButtonClass}>−</button>
+          <button onClick={() => setView({ start: 0, end: duration })} disabled={span >= duration} className={toolButtonClass}>Fit</button>
+          <button onClick={onLoadWaveform} disabled={isLoadingWaveform || waveform !== null} className={toolButtonClass}>
+            {isLoadingWaveform ? 'Decoding audio...' : waveform ? 'Waveform' : 'Load waveform'}
+          </button>
+        </div>
+      </div>
+
+      <div
+        ref={containerRef}
+        className="relative select-none overflow-hidden rounded-xl bg-black/40 border border-slate-800 cursor-text"
+        style={{ height }}
+        onMouseDown={(e) => {
+          if (e.button !== 0) return;
+          onSeek(Math.min(duration, Math.max(0, toTime(e.clientX - e.currentTarget.getBoundingClientRect().left))));
+        }}
+      >
+        {ticks.map(t => (
+          <div key={t} className="absolute top-0 bottom-0 border-l border-slate-800/80 pointer-events-none" style={{ left: toX(t) }}>
+            <span className="absolute top-0.5 left-1 text-[8px] font-mono text-slate-500">{formatTick(t, tickStep)}</span>
+          </div>
+        ))}
+
+        {waveform && speech?.filter(s => s.end >= view.start && s.start <= view.end).map(s => (
+          <div
+            key={s.start}
+            className="absolute bg-rose-500/10 border-x border-rose-500/20 pointer-events-none"
+            style={{ top: RULER_HEIGHT, height: WAVE_HEIGHT, left: toX(s.start), width: toX(s.end) - toX(s.start) }}
+          />
+        ))}
+
+        {waveform && (
+          <canvas
+            ref={canvasRef}
+            className="absolute left-0 pointer-events-none"
+            style={{ top: RULER_HEIGHT, width, height: WAVE_HEIGHT }}
+          />
+        )}
+
+        {regions.map((region, lane) => (
+          <div
+            key={region.id}
+            className={`absolute left-0 right-0 border-t ${region.id === activeRegionId ? 'border-indigo-500/30 bg-indigo-500/5' : 'border-slate-800/60'}`}
+            style={{ top: lanesTop + lane * LANE_HEIGHT, height: LANE_HEIGHT }}
+          >
+            {regions.length > 1 && (
+              <span className="absolute right-1 top-0.5 text-[7px] font-black text-slate-600 uppercase tracking-widest pointer-events-none">{region.name}</span>
+            )}
+          </div>
+        ))}
+
+        {subtitles.map(sub => {
+          const shown = draft?.id === sub.id ? { ...sub, ...draft } : sub;
+          if (shown.endTime < view.start || shown.startTime > view.end) return null;
+          const lane = Math.max(0, regions.findIndex(r => r.id === cueRegionId(sub, regions)));
+          const left = toX(shown.startTime);
+          const isActive = currentTime >= shown.startTime && currentTime <= shown.endTime;
+          return (
+            <div
+              key={sub.id}
+              className={`absolute rounded-md border text-[8px] sm:text-[9px] font-bold overflow-hidden whitespace-nowrap px-1.5 leading-[22px] ${disabled ? 'cursor-pointer' : 'cursor-grab'} ${
+                isActive ? 'bg-indigo-500/70 border-indigo-300 text-white' : 'bg-slate-700/70 border-slate-500/60 text-slate-200 hover:bg-slate-600/80'
+              } ${draft?.id === sub.id ? 'ring-2 ring-white/60 z-10' : ''}`}
+              style={{ left, width: Math.max(3, toX(shown.endTime) - left), top: lanesTop + lane * LANE_HEIGHT + 2, height: LANE_HEIGHT - 4 }}
+              title={`${shown.startTime.toFixed(2)}s — ${shown.endTime.toFixed(2)}s\n${sub.text}`}
+              onMouseDown={(e) => startCueDrag(e, sub, 'move')}
+            >
+              {!disabled && (
+                <>
+                  <div className="absolute left-0 top-0 bottom-0 w-1.5 cursor-ew-resize hover:bg-white/40" onMouseDown={(e) => startCueDrag(e, sub, 'start')} />
+                  <div className="absolute right-0 top-0 bottom-0 w-1.5 cursor-ew-resize hover:bg-white/40" onMouseDown={(e) => startCueDrag(e, sub, 'end')} />
+                </>
+              )}
+              {sub.text.replace(/\n/g, ' ')}
+            </div>
+          );
+        })}
+
+        {/* Outside the processing window is dimmed; its edges drag like the range inputs */}
+        <div className="absolute top-0 bottom-0 left-0 bg-black/50 pointer-events-none" style={{ width: Math.max(0, toX(timeRange.start)) }} />
+        <div className="absolute top-0 bottom-0 right-0 bg-black/50 pointer-events-none" style={{ left: Math.min(width, toX(timeRange.end)) }} />
+        {(['start', 'end'] as const).map(edge => (
+          <div
+            key={edge}
+            className={`absolute top-0 bottom-0 w-2 -ml-1 z-20 ${disabled ? '' : 'cursor-ew-resize'} group/range`}
+            style={{ left: toX(edge === 'start' ? timeRange.start : timeRange.end) }}
+            onMouseDown={(e) => {
+              e.stopPropagation();
+              e.preventDefault();
+              if (!disabled) setDrag({ kind: 'range', edge });
+            }}
+            title={edge === 'start' ? 'Processing start' : 'Processing end'}
+          >
+            <div className="mx-auto w-0.5 h-full bg-emerald-400/80 group-hover/range:bg-emerald-300" />
+          </div>
+        ))}
+
+        <div className="absolute top-0 bottom-0 w-px bg-rose-400 pointer-events-none z-30" style={{ left: toX(currentTime) }} />
+      </div>
+    </div>
+  );
+};
+
+export default Timeline;
@@ -0,0 +1,126 @@
+import React, { useMemo, useState } from 'react';
+import { SubtitleEntry, SubtitleRegion } from '../types';
+import { SpeechSegment, alignCues, applyTimingAdjustments } from '../services/speechAlignment';
+
+interface TimingAlignmentProps {
+  subtitles: SubtitleEntry[];
+  regions: SubtitleRegion[];
+  speech: SpeechSegment[] | null;
+  isAnalyzing: boolean;
+  onAnalyze: () => void;
+  onApply: (subtitles: SubtitleEntry[]) => void;
+  onJumpTo: (time: number) => void;
+  disabled: boolean;
+}
+
+const buttonClass = "px-3 py-2 bg-slate-800/80 hover:bg-white hover:text-black text-white text-[8px] sm:text-[9px] font-black rounded-xl transition-all border border-slate-700 uppercase tracking-widest active:scale-95 disabled:opacity-30 disabled:pointer-events-none";
+const sliderClass = "w-full h-1 sm:h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-indigo-500";
+
+const formatShift = (delta: number) =>
+  Math.abs(delta) < 0.005 ? '·' : `${delta > 0 ? '+' : '−'}${Math.abs(delta).toFixed(2)}s`;
+
+const shiftClass = (delta: number) =>
+  Math.abs(delta) < 0.005 ? 'text-slate-600' : delta > 0 ? 'text-amber-400' : 'text-cyan-400';
+
+const TimingAlignment: React.FC<TimingAlignmentProps> = ({
+  subtitles,
+  regions,
+  speech,
+  isAnalyzing,
+  onAnalyze,
+  onApply,
+  onJumpTo,
+  disabled
+}) => {
+  const [tolerance, setTolerance] = useState(0.5);
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+
+  const adjustments = useMemo(
+    () => speech ? alignCues(subtitles, speech, regions, tolerance) : [],
+    [speech, subtitles, regions, tolerance]
+  );
+  const selected = adjustments.filter(a => !excluded.has(a.id));
+
+  const toggle = (id: string) => {
+    const next = new Set(excluded);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setExcluded(next);
+  };
+
+  const apply = () => {
+    onApply(applyTimingAdjustments(subtitles, selected));
+    setExcluded(new Set());
+  };
+
+  return (
+    <div className="glass-panel p-4 sm:p-8 rounded-3xl md:rounded-[2.5rem] shadow-2xl space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex items-center space-x-2">
+          <span className="w-1 h-1 sm:w-1.5 sm:h-1.5 bg-rose-500 rounded-full"></span>
+          <span className="text-[9px] sm:text-xs font-black text-slate-400 uppercase tracking-[0.2em]">Align To Speech</span>
+          {speech && (
+            <span className="text-[8px] sm:text-[10px] text-slate-500 uppercase tracking-widest">· {speech.length} speech segments</span>
+          )}
+        </div>
+        <div className="flex gap-2">
+          {!speech && (
+            <button onClick={onAnalyze} disabled={isAnalyzing || disabled || subtitles.length === 0} className={buttonClass}>
+              {isAnalyzing ? 'Decoding audio...' : 'Detect speech'}
+            </button>
+          )}
+          <button onClick={apply} disabled={selected.length === 0 || disabled} className={buttonClass}>
+            Apply {selected.length}
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-2 bg-black/30 p-4 rounded-2xl border border-white/5">
+        <div className="flex justify-between items-end">
+          <span className="text-[8px] sm:text-[10px] text-slate-500 font-bold uppercase">Snap tolerance</span>
+          <span className="text-[10px] sm:text-xs font-mono text-indigo-400">±{tolerance.toFixed(2)}s</span>
+        </div>
+        <input type="range" min="0.1" max="1.5" step="0.05" value={tolerance} onChange={(e) => setTolerance(Number(e.target.value))} className={sliderClass} />
+      </div>
+
+      {speech && (adjustments.length > 0 ? (
+        <div className="space-y-1 max-h-[320px] overflow-y-auto pr-1">
+          {adjustments.map(a => {
+            const startShift = a.to.startTime - a.from.startTime;
+            const endShift = a.to.endTime - a.from.endTime;
+            return (
+              <div
+                key={a.id}
+                onClick={() => onJumpTo(a.from.startTime)}
+                className={`flex items-center gap-3 p-2 rounded-xl border cursor-pointer transition-all ${excluded.has(a.id) ? 'border-slate-900 opacity-40' : 'border-slate-800 bg-slate-900/50 hover:border-slate-600'}`}
+              >
+                <input
+                  type="checkbox"
+                  checked={!excluded.has(a.id)}
+                  onClick={(e) => e.stopPropagation()}
+                  onChange={() => toggle(a.id)}
+                  className="accent-indigo-500"
+                />
+                <div className="min-w-0 flex-1">
+                  <p className="text-[10px] sm:text-xs text-slate-300 truncate" dir="auto">{a.text.replace(/\n/g, ' ')}</p>
+                  <p className="text-[8px] sm:text-[9px] font-mono text-slate-500">
+                    <span className="line-through">{a.from.startTime.toFixed(2)} — {a.from.endTime.toFixed(2)}</span>
+                    <span className="text-slate-300"> → {a.to.startTime.toFixed(2)} — {a.to.endTime.toFixed(2)}</span>
+                  </p>
+                </div>
+                <div className="flex flex-col items-end text-[8px] sm:text-[9px] font-mono font-bold">
+                  <span className={shiftClass(startShift)}>In {formatShift(startShift)}</span>
+                  <span className={shiftClass(endShift)}>Out {formatShift(endShift)}</span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="text-[9px] sm:text-[10px] text-slate-600 uppercase tracking-widest font-bold text-center py-4">Every cue already lines up with the speech</p>
+      ))}
+    </div>
+  );
+};
+
+export default TimingAlignment;
@@ -1,32 +1,100 @@
 
 import React, { useRef, useEffect, useState } from 'react';
-import { SubtitleArea, VideoMetadata } from '../types';
+import { SubtitleArea, SubtitleEntry, SubtitleRegion, VideoMetadata } from '../types';
+import { ExportTextMode, cueText } from '../services/exporters';
+import { cueRegionId } from '../services/regions';
 
 interface VideoPlayerProps {
   url: string;
-  area: SubtitleArea;
-  setArea: (area: SubtitleArea) => void;
+  regions: SubtitleRegion[];
+  activeRegionId: string;
+  onSelectRegion: (id: string) => void;
+  detectedAreas: SubtitleArea[];
+  onPickColor?: (point: { x: number; y: number }) => void; // eyedropper mode while set, in percent
+  setArea: (area: SubtitleArea) => void; // updates the active region
   onMetadataLoaded: (meta: VideoMetadata) => void;
   onTimeUpdate: (time: number) => void;
   videoRef: React.RefObject<HTMLVideoElement | null>;
   currentTime: number;
+  subtitles: SubtitleEntry[]; // drawn over the video when the overlay is on
 }
 
+// Where extracted cues are drawn relative to their region's hardsubs
+type OverlayPlacement = 'off' | 'above' | 'below' | 'over';
+
+const OVERLAY_PLACEMENTS: OverlayPlacement[] = ['off', 'above', 'below', 'over'];
+const OVERLAY_TEXT: ExportTextMode[] = ['original', 'translation', 'both'];
+
+const overlayButtonClass = "px-2 py-1 bg-black/70 hover:bg-white hover:text-black text-white text-[8px] sm:text-[9px] font-black rounded-lg border border-white/20 uppercase tracking-widest transition-all";
+
 const VideoPlayer: React.FC<VideoPlayerProps> = ({ 
   url, 
-  area, 
+  regions,
+  activeRegionId,
+  onSelectRegion,
+  detectedAreas,
+  onPickColor,
   setArea,
   onMetadataLoaded, 
   onTimeUpdate,
   videoRef,
-  currentTime
+  currentTime,
+  subtitles
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
+  const activeRegion = regions.find(r => r.id === activeRegionId) ?? regions[0];
+  const area = activeRegion.area;
   const [isDragging, setIsDragging] = useState(false);
   const [isResizing, setIsResizing] = useState(false);
   const [startPos, setStartPos] = useState({ x: 0, y: 0 });
   const [startArea, setStartArea] = useState<SubtitleArea>(area);
   const [videoDisplayRect, setVideoDisplayRect] = useState({ left: 0, top: 0, width: 0, height: 0 });
+  const [placement, setPlacement] = useState<OverlayPlacement>('off');
+  const [overlayText, setOverlayText] = useState<ExportTextMode>('original');
+  const [playhead, setPlayhead] = useState(currentTime);
+  const hasTranslation = subtitles.some(s => s.translation);
+
+  // timeupdate fires only a few times a second; follow every frame while the overlay is
+  // shown and the video plays, and otherwise only when a seek moves it
+  useEffect(() => {
+    const video = videoRef.current;
+    if (placement === 'off' || !video) return;
+    let frame = 0;
+    const sync = () => setPlayhead(video.currentTime);
+    const tick = () => {
+      sync();
+      frame = requestAnimationFrame(tick);
+    };
+    const play = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(tick);
+    };
+    const pause = () => {
+      cancelAnimationFrame(frame);
+      sync();
+    };
+    video.addEventListener('play', play);
+    video.addEventListener('pause', pause);
+    video.addEventListener('seeked', sync);
+    if (video.paused) sync();
+    else play();
+    return () => {
+      cancelAnimationFrame(frame);
+      video.removeEventListener('play', play);
+      video.removeEventListener('pause', pause);
+      video.removeEventListener('seeked', sync);
+    };
+  }, [placement]);
+
+  // One block per region, holding every cue on screen in it
+  const overlayCues = placement === 'off' ? [] : regions
+    .map(region => ({
+      region,
+      lines: subtitles
+        .filter(s => playhead >= s.startTime && playhead < s.endTime && cueRegionId(s, regions) === region.id)
+        .map(s => cueText(s, overlayText))
+    }))
+    .filter(block => block.lines.length > 0);
 
   const updateVideoDisplayRect = () => {
     if (!videoRef.current || !containerRef.current) return;
@@ -167,6 +235,41 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
         playsInline
       />
       
+      {videoDisplayRect.width > 0 && detectedAreas.map((detected, i) => (
+        <div
+          key={`detected-${i}`}
+          className="absolute border-2 border-dashed border-amber-400/70 bg-amber-400/5 pointer-events-none"
+          style={{
+            left: `${videoDisplayRect.left + (detected.x / 100) * videoDisplayRect.width}px`,
+            top: `${videoDisplayRect.top + (detected.y / 100) * videoDisplayRect.height}px`,
+            width: `${(detected.width / 100) * videoDisplayRect.width}px`,
+            height: `${(detected.height / 100) * videoDisplayRect.height}px`
+          }}
+        >
+          <div className="absolute -bottom-5 right-0 bg-amber-500/80 text-black text-[8px] sm:text-[10px] px-2 py-0.5 rounded-b font-black uppercase tracking-wider whitespace-nowrap">
+            Detected #{i + 1}
+          </div>
+        </div>
+      ))}
+
+      {videoDisplayRect.width > 0 && regions.filter(r => r.id !== activeRegion.id).map(region => (
+        <div
+          key={region.id}
+          className="absolute border-2 border-dashed border-cyan-400/60 bg-cyan-500/5 cursor-pointer hover:border-cyan-300 transition-colors"
+          style={{
+            left: `${videoDisplayRect.left + (region.area.x / 100) * videoDisplayRect.width}px`,
+            top: `${videoDisplayRect.top + (region.area.y / 100) * videoDisplayRect.height}px`,
+            width: `${(region.area.width / 100) * videoDisplayRect.width}px`,
+            height: `${(region.area.height / 100) * videoDisplayRect.height}px`
+          }}
+          onClick={() => onSelectRegion(region.id)}
+        >
+          <div className="absolute -top-6 left-0 bg-cyan-700/80 text-white text-[8px] sm:text-[10px] px-2 py-0.5 rounded-t font-black uppercase tracking-wider whitespace-nowrap">
+            {region.name}
+          </div>
+        </div>
+      ))}
+
       {videoDisplayRect.width > 0 && (
         <div 
           className={`absolute border-2 border-indigo-400/80 bg-indigo-500/10 transition-shadow duration-200 cursor-move touch-none ${isDragging ? 'shadow-[0_0_20px_rgba(99,102,241,0.8)] z-10' : ''}`}
@@ -175,13 +278,14 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
             top: `${videoDisplayRect.top + (area.y / 100) * videoDisplayRect.height}px`,
             width: `${(area.width / 100) * videoDisplayRect.width}px`,
             height: `${(area.height / 100) * videoDisplayRect.height}px`,
-            boxShadow: isDragging || isResizing ? 'none' : '0 0 0 9999px rgba(0, 0, 0, 0.6)'
+            // The dim mask would hide the other regions, so only use it for a single region
+            boxShadow: isDragging || isResizing || regions.length > 1 ? 'none' : '0 0 0 9999px rgba(0, 0, 0, 0.6)'
           }}
           onMouseDown={(e) => handleMouseDown(e, 'drag')}
           onTouchStart={(e) => handleTouchStart(e, 'drag')}
         >
           <div className="absolute -top-6 left-0 bg-indigo-600 text-white text-[8px] sm:text-[10px] px-2 py-0.5 rounded-t font-black uppercase tracking-wider whitespace-nowrap shadow-lg">
-            OCR AREA
+            {regions.length > 1 ? activeRegion.name : 'OCR AREA'}
           </div>
           
           <div 
@@ -198,6 +302,73 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
         </div>
       )}
 
+      {videoDisplayRect.width > 0 && overlayCues.map(({ region, lines }) => {
+        const left = videoDisplayRect.left + (region.area.x / 100) * videoDisplayRect.width;
+        const top = videoDisplayRect.top + (region.area.y / 100) * videoDisplayRect.height;
+        const width = (region.area.width / 100) * videoDisplayRect.width;
+        const height = (region.area.height / 100) * videoDisplayRect.height;
+        return (
+          <div
+            key={`overlay-${region.id}`}
+            className={`absolute z-10 pointer-events-none flex justify-center px-2 ${placement === 'over' ? 'items-center bg-black/85' : ''}`}
+            style={{
+              left: `${left}px`,
+              width: `${width}px`,
+              ...(placement === 'over' && { top: `${top}px`, height: `${height}px` }),
+              ...(placement === 'above' && { top: `${top}px`, transform: 'translateY(-100%)' }),
+              ...(placement === 'below' && { top: `${top + height}px` })
+            }}
+          >
+            <p
+              dir="auto"
+              className="text-center whitespace-pre-line font-bold text-yellow-200 bg-black/60 rounded px-2 py-0.5 [text-shadow:0_1px_2px_black]"
+              style={{ fontSize: `${Math.max(11, videoDisplayRect.height * 0.04)}px` }}
+            >
+              {lines.join('\n')}
+            </p>
+          </div>
+        );
+      })}
+
+      {videoDisplayRect.width > 0 && (
+        <div className="absolute top-2 right-2 z-20 flex gap-1">
+          <button
+            className={overlayButtonClass}
+            onClick={() => setPlacement(OVERLAY_PLACEMENTS[(OVERLAY_PLACEMENTS.indexOf(placement) + 1) % OVERLAY_PLACEMENTS.length])}
+            title="Show the extracted track over the video, next to or on top of the original subtitles"
+          >
+            Overlay: {placement}
+          </button>
+          {placement !== 'off' && hasTranslation && (
+            <button
+              className={overlayButtonClass}
+              onClick={() => setOverlayText(OVERLAY_TEXT[(OVERLAY_TEXT.indexOf(overlayText) + 1) % OVERLAY_TEXT.length])}
+            >
+              {overlayText === 'both' ? 'dual' : overlayText}
+            </button>
+          )}
+        </div>
+      )}
+
+      {videoDisplayRect.width > 0 && onPickColor && (
+        <div
+          className="absolute z-20 cursor-crosshair ring-2 ring-amber-400/80"
+          style={{
+            left: `${videoDisplayRect.left}px`,
+            top: `${videoDisplayRect.top}px`,
+            width: `${videoDisplayRect.width}px`,
+            height: `${videoDisplayRect.height}px`
+          }}
+          onClick={(e) => {
+            const rect = e.currentTarget.getBoundingClientRect();
+            onPickColor({
+              x: ((e.clientX - rect.left) / rect.width) * 100,
+              y: ((e.clientY - rect.top) / rect.height) * 100
+            });
+          }}
+        />
+      )}
+
       {!url && (
         <div className="absolute inset-0 flex flex-col items-center justify-center bg-slate-900/50 backdrop-blur-sm gap-2">
           <svg className="w-8 h-8 text-slate-700 animate-pulse" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -0,0 +1,95 @@
+import { useState, useRef, useCallback } from 'react';
+import { BatchItem, BatchPreset } from '../types';
+import { JobCancelledError } from '../services/ocrJobRunner';
+import { createBatchItem, isVideoFile, processBatchFile, resolveBatchPreset } from '../services/batchQueue';
+
+type BatchOverride = Partial<Pick<BatchItem, 'regions' | 'language'>>;
+
+// Processes queued files one after another. Each item picks up the preset as it
+// stands when its turn comes, so edits made mid-run apply to the remaining files.
+export const useBatchQueue = (preset: BatchPreset) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  // The run loop outlives renders, so it reads the latest items and preset through refs
+  const itemsRef = useRef<BatchItem[]>([]);
+  const presetRef = useRef(preset);
+  presetRef.current = preset;
+  const runningRef = useRef(false);
+  const stoppingRef = useRef(false);
+  const current = useRef<{ id: string; controller: AbortController } | null>(null);
+
+  const commit = useCallback((next: BatchItem[]) => {
+    itemsRef.current = next;
+    setItems(next);
+  }, []);
+
+  const update = useCallback((id: string, patch: Partial<BatchItem>) => {
+    commit(itemsRef.current.map(item => item.id === id ? { ...item, ...patch } : item));
+  }, [commit]);
+
+  const start = useCallback(async () => {
+    if (runningRef.current) return;
+    runningRef.current = true;
+    stoppingRef.current = false;
+    setIsRunning(true);
+    try {
+      let item: BatchItem | undefined;
+      while (!stoppingRef.current && (item = itemsRef.current.find(i => i.status === 'queued'))) {
+        const { id, file } = item;
+        const controller = new AbortController();
+        current.current = { id, controller };
+        update(id, { status: 'processing', progress: 0, currentStep: 'Opening video...', error: undefined, result: undefined });
+        try {
+          const result = await processBatchFile(
+            file,
+            resolveBatchPreset(item, presetRef.current),
+            (progress, currentStep) => update(id, { progress, currentStep }),
+            controller.signal
+          );
+          update(id, result.failedSegments > 0
+            ? { status: 'failed', result, progress: 100, currentStep: 'Partially extracted.', error: `${result.failedSegments} of ${result.totalSegments} segments failed.` }
+            : { status: 'done', result, progress: 100, currentStep: `${result.subtitles.length} cues extracted.` });
+        } catch (err) {
+          if (err instanceof JobCancelledError) {
+            update(id, { status: 'queued', progress: 0, currentStep: 'Stopped.' });
+          } else {
+            console.error(`Batch extraction failed for ${file.name}:`, err);
+            update(id, { status: 'failed', progress: 0, currentStep: 'Failed.', error: err instanceof Error ? err.message : String(err) });
+          }
+        }
+      }
+    } finally {
+      current.current = null;
+      runningRef.current = false;
+      setIsRunning(false);
+    }
+  }, [update]);
+
+  // Cancels the item in progress, which goes back to the queue, and starts no further items
+  const stop = useCallback(() => {
+    stoppingRef.current = true;
+    current.current?.controller.abort();
+  }, []);
+
+  const addFiles = useCallback((files: File[]) => {
+    commit([...itemsRef.current, ...files.filter(isVideoFile).map(createBatchItem)]);
+  }, [commit]);
+
+  const remove = useCallback((id: string) => {
+    if (current.current?.id === id) current.current.controller.abort();
+    commit(itemsRef.current.filter(item => item.id !== id));
+  }, [commit]);
+
+  const retry = useCallback((id: string) => {
+    update(id, { status: 'queued', progress: 0, currentStep: 'Queued', error: undefined, result: undefined });
+    start();
+  }, [update, start]);
+
+  const setOverride = useCallback((id: string, override: BatchOverride) => update(id, override), [update]);
+
+  const clearFinished = useCallback(() => {
+    commit(itemsRef.current.filter(item => item.status !== 'done'));
+  }, [commit]);
+
+  return { items, isRunning, start, stop, addFiles, remove, retry, setOverride, clearFinished };
+};
@@ -0,0 +1,59 @@
+import { useState, useCallback } from 'react';
+
+interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+const HISTORY_LIMIT = 100;
+
+export const useHistoryState = <T,>(initial: T) => {
+  const [history, setHistory] = useState<History<T>>({ past: [], present: initial, future: [] });
+
+  // Records an undoable step
+  const set = useCallback((next: T) => {
+    setHistory(h => ({
+      past: [...h.past, h.present].slice(-HISTORY_LIMIT),
+      present: next,
+      future: []
+    }));
+  }, []);
+
+  // Replaces the current value without recording a step (e.g. streaming results)
+  const replace = useCallback((next: T) => {
+    setHistory(h => ({ ...h, present: next }));
+  }, []);
+
+  // Starts over with a fresh history
+  const reset = useCallback((next: T) => {
+    setHistory({ past: [], present: next, future: [] });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(h => h.past.length === 0 ? h : {
+      past: h.past.slice(0, -1),
+      present: h.past[h.past.length - 1],
+      future: [h.present, ...h.future]
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(h => h.future.length === 0 ? h : {
+      past: [...h.past, h.present],
+      present: h.future[0],
+      future: h.future.slice(1)
+    });
+  }, []);
+
+  return {
+    value: history.present,
+    set,
+    replace,
+    reset,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0
+  };
+};
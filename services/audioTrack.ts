@@ -0,0 +1,166 @@
+import { AudioSampleEntry, ES_Descriptor, MP4BoxBuffer, Sample, createFile } from 'mp4box';
+import { editListOffset } from './mp4EditList';
+
+// Mono audio decoded from a video file, for drawing the waveform and finding speech
+
+// Plenty for waveforms and speech, and a quarter of the memory of 44.1 kHz stereo
+export const ANALYSIS_SAMPLE_RATE = 16_000;
+// Files the browser has to decode whole are read into memory first, so past this
+// size they are refused rather than left to exhaust it
+export const MAX_WHOLE_FILE_BYTES = 512 * 1024 * 1024;
+const READ_CHUNK = 1024 * 1024;
+// MPEG-4 descriptors leading to an AAC track's AudioSpecificConfig
+const DECODER_CONFIG_TAG = 4;
+const DECODER_SPECIFIC_INFO_TAG = 5;
+
+export interface AudioTrack {
+  samples: Float32Array; // mono, -1..1
+  sampleRate: number;
+}
+
+export interface Waveform {
+  peaks: Float32Array; // absolute peak per bucket, 0..1
+  peaksPerSecond: number;
+}
+
+const isMp4 = (file: File) =>
+  /^video\/(mp4|quicktime)$/.test(file.type) || /\.(mp4|m4v|mov)$/i.test(file.name);
+
+interface DemuxedAudio {
+  config: AudioDecoderConfig;
+  samples: Sample[];
+  presentationOffset: number; // seconds added to a sample's CTS, as for the video
+}
+
+// Parses only the movie header of an MP4 or MOV, reading the file piecewise wherever
+// mp4box asks next. Null for other containers or files without an audio track.
+const demuxAudio = async (file: File): Promise<DemuxedAudio | null> => {
+  const isoFile = createFile(false);
+  let demuxed: DemuxedAudio | null = null;
+  let settled = false;
+
+  isoFile.onReady = info => {
+    settled = true;
+    const track = info.audioTracks[0];
+    if (!track?.audio || info.isFragmented) return;
+    const entry = isoFile.getTrackById(track.id).mdia.minf.stbl.stsd.entries[0] as AudioSampleEntry & { esds?: { esd: ES_Descriptor } };
+    const description: Uint8Array | undefined = entry?.esds?.esd
+      .findDescriptor(DECODER_CONFIG_TAG)?.findDescriptor(DECODER_SPECIFIC_INFO_TAG)?.data;
+    demuxed = {
+      config: {
+        codec: track.codec,
+        sampleRate: track.audio.sample_rate,
+        numberOfChannels: track.audio.channel_count,
+        description
+      },
+      samples: isoFile.getTrackSamplesInfo(track.id),
+      presentationOffset: editListOffset(isoFile, track.id, info.timescale, track.timescale)
+    };
+  };
+  isoFile.onError = () => { settled = true; };
+
+  let offset = 0;
+  while (!settled && offset < file.size) {
+    const buffer = MP4BoxBuffer.fromArrayBuffer(await file.slice(offset, offset + READ_CHUNK).arrayBuffer(), offset);
+    offset = isoFile.appendBuffer(buffer) ?? offset + READ_CHUNK;
+  }
+  isoFile.flush();
+  return demuxed;
+};
+
+const isSupported = (config: AudioDecoderConfig) =>
+  AudioDecoder.isConfigSupported(config).then(support => !!support.supported, () => false);
+
+// Decodes the demuxed track a read chunk at a time, downmixing and box-filtering each
+// decoded block straight into the analysis buffer so the native-rate audio is never held whole
+const decodeDemuxedAudio = async (file: File, { config, samples, presentationOffset }: DemuxedAudio): Promise<AudioTrack> => {
+  const last = samples[samples.length - 1];
+  const output = new Float32Array(last ? Math.max(0, Math.ceil(((last.cts + last.duration) / last.timescale + presentationOffset) * ANALYSIS_SAMPLE_RATE)) : 0);
+  let failure: Error | null = null;
+
+  const decoder = new AudioDecoder({
+    output: data => {
+      const scale = ANALYSIS_SAMPLE_RATE / data.sampleRate;
+      const weight = Math.min(1, scale) / data.numberOfChannels;
+      // Priming samples before the edit land at negative times and are dropped
+      const start = (data.timestamp / 1e6 + presentationOffset) * ANALYSIS_SAMPLE_RATE;
+      const channel = new Float32Array(data.numberOfFrames);
+      for (let c = 0; c < data.numberOfChannels; c++) {
+        data.copyTo(channel, { planeIndex: c, format: 'f32-planar' });
+        for (let i = 0; i < channel.length; i++) {
+          const j = Math.floor(start + i * scale);
+          if (j >= 0 && j < output.length) output[j] += channel[i] * weight;
+        }
+      }
+      data.close();
+    },
+    error: err => { failure = err; }
+  });
+  decoder.configure(config);
+
+  // Neighbouring samples are read together, up to a chunk's worth of the file
+  let first = 0;
+  while (first < samples.length && !failure) {
+    const base = samples[first].offset;
+    let end = first + 1;
+    while (end < samples.length && samples[end].offset >= base && samples[end].offset + samples[end].size - base <= READ_CHUNK) end++;
+    const bytes = new Uint8Array(await file.slice(base, samples[end - 1].offset + samples[end - 1].size).arrayBuffer());
+    for (let i = first; i < end; i++) {
+      const sample = samples[i];
+      decoder.decode(new EncodedAudioChunk({
+        type: 'key',
+        timestamp: Math.round((sample.cts * 1e6) / sample.timescale),
+        duration: Math.round((sample.duration * 1e6) / sample.timescale),
+        data: bytes.subarray(sample.offset - base, sample.offset - base + sample.size)
+      }));
+    }
+    // Waiting for each chunk to drain keeps the decoder's queue, and memory, bounded
+    await decoder.flush().catch(err => { failure ??= err; });
+    first = end;
+  }
+  if (decoder.state !== 'closed') decoder.close();
+  if (failure) throw new Error(`The audio track of ${file.name} could not be decoded.`);
+  return { samples: output, sampleRate: ANALYSIS_SAMPLE_RATE };
+};
+
+// Decodes the file's first audio track. MP4 and MOV are demuxed and decoded piecewise
+// with WebCodecs where the browser has it; anything else goes to the browser's decoder
+// whole, which needs the file in memory and so is refused past MAX_WHOLE_FILE_BYTES.
+export const decodeAudioTrack = async (file: File): Promise<AudioTrack> => {
+  if (typeof AudioDecoder !== 'undefined' && isMp4(file)) {
+    const demuxed = await demuxAudio(file).catch(() => null);
+    if (demuxed && await isSupported(demuxed.config)) return decodeDemuxedAudio(file, demuxed);
+  }
+
+  if (file.size > MAX_WHOLE_FILE_BYTES) {
+    throw new Error(`${file.name} is too large to decode its audio in this browser (${Math.round(file.size / 2 ** 20)} MB, the limit is ${MAX_WHOLE_FILE_BYTES / 2 ** 20} MB). An MP4 with AAC audio in a browser with WebCodecs has no limit.`);
+  }
+
+  // An offline context resamples on decode, unlike a realtime one tied to the output device
+  const context = new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE);
+  let buffer: AudioBuffer;
+  try {
+    buffer = await context.decodeAudioData(await file.arrayBuffer());
+  } catch {
+    throw new Error(`No decodable audio track in ${file.name}.`);
+  }
+
+  const samples = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const channel = buffer.getChannelData(c);
+    for (let i = 0; i < channel.length; i++) samples[i] += channel[i] / buffer.numberOfChannels;
+  }
+  return { samples, sampleRate: buffer.sampleRate };
+};
+
+export const computeWaveform = ({ samples, sampleRate }: AudioTrack, peaksPerSecond = 100): Waveform => {
+  const bucket = Math.max(1, Math.round(sampleRate / peaksPerSecond));
+  const peaks = new Float32Array(Math.ceil(samples.length / bucket));
+  for (let b = 0; b < peaks.length; b++) {
+    let peak = 0;
+    const end = Math.min(samples.length, (b + 1) * bucket);
+    for (let i = b * bucket; i < end; i++) peak = Math.max(peak, Math.abs(samples[i]));
+    peaks[b] = peak;
+  }
+  return { peaks, peaksPerSecond: sampleRate / bucket };
+};
@@ -0,0 +1,113 @@
+import { zipSync, strToU8 } from 'fflate';
+import { BatchItem, BatchPreset, BatchResult } from "../types";
+import { OCRJobRunner, JobCancelledError, createJob, countCompletedBatches } from "./ocrJobRunner";
+import { getOCREngine } from "./ocrEngines";
+import { scanFrames, mergeJobResults, BATCH_SIZE, BATCH_OVERLAP } from "./pipeline";
+import { FrameSource, captureRegions, createDecoderFrameSource, createSeekFrameSource, loadVideoElement } from "./frameSource";
+import { SubtitleSerializer } from "./exporters";
+
+const VIDEO_EXTENSIONS = /\.(mp4|m4v|mov|webm|mkv|ogv|avi)$/i;
+
+// Folder picks include every file inside; only videos are queued
+export const isVideoFile = (file: File) => file.type.startsWith('video/') || VIDEO_EXTENSIONS.test(file.name);
+
+export const createBatchItem = (file: File): BatchItem => ({
+  id: `batch-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`,
+  file,
+  status: 'queued',
+  progress: 0,
+  currentStep: 'Queued'
+});
+
+// The shared preset with the item's own regions and language applied
+export const resolveBatchPreset = (item: BatchItem, preset: BatchPreset): BatchPreset => {
+  const regions = item.regions ?? preset.regions;
+  return {
+    ...preset,
+    regions: item.language ? regions.map(r => ({ ...r, language: item.language! })) : regions
+  };
+};
+
+// Runs the whole extraction for one file off-screen: decoded in a worker where the
+// browser allows, otherwise by seeking a detached video element. Aborting the signal
+// rejects with JobCancelledError.
+export const processBatchFile = async (
+  file: File,
+  preset: BatchPreset,
+  onProgress: (progress: number, message: string) => void,
+  signal: AbortSignal
+): Promise<BatchResult> => {
+  const { video, metadata, release } = await loadVideoElement(file);
+  let source: FrameSource | null = null;
+  try {
+    const seekSource = createSeekFrameSource(() => video);
+    source = await createDecoderFrameSource(file, seekSource).catch(err => {
+      console.warn(`Background decoding unavailable for ${file.name}, seeking instead:`, err);
+      return seekSource;
+    });
+    const frameSource = source;
+    const { regions, engineType, scanSettings, dispatchSettings, preprocess, textCleanup } = preset;
+    // Stop a little short of the end, where seeking yields no frame
+    const timeRange = { start: 0, end: Math.max(0, metadata.duration - 0.1) };
+
+    const { frames } = await scanFrames(
+      time => signal.aborted
+        ? Promise.reject(new JobCancelledError())
+        : captureRegions(frameSource, time, regions.map(r => r.area), preprocess),
+      regions.length,
+      timeRange,
+      scanSettings,
+      (fraction, message) => onProgress(Math.min(25, fraction * 25), message)
+    );
+    if (signal.aborted) throw new JobCancelledError();
+
+    const tracks = regions.map((region, r) => ({
+      regionId: region.id,
+      language: region.language,
+      mixedLanguages: region.mixedLanguages,
+      frames: frames[r]
+    }));
+    const job = createJob(`batch-${file.name}`, engineType, timeRange, tracks, BATCH_SIZE, BATCH_OVERLAP);
+    const runner = new OCRJobRunner(job, getOCREngine(engineType), dispatchSettings, {
+      onBatchSettled: (settled, batch) => {
+        const done = countCompletedBatches(settled);
+        onProgress(30 + (done / settled.batches.length) * 70, batch.status === 'failed'
+          ? `Segment ${batch.index + 1} failed: ${batch.error}`
+          : `Decoding segment ${done}/${settled.batches.length}...`);
+      },
+      onRetry: (batch, attempt) => onProgress(30, `Segment ${batch.index + 1} failed, retrying (attempt ${attempt + 1})...`)
+    });
+    const cancel = () => runner.cancel();
+    signal.addEventListener('abort', cancel);
+    onProgress(30, 'Neural Dialogue Mapping...');
+    try {
+      const finished = await runner.run();
+      return {
+        subtitles: mergeJobResults([], finished, regions, scanSettings.sampleStep, textCleanup),
+        regions,
+        metadata,
+        failedSegments: finished.batches.length - countCompletedBatches(finished),
+        totalSegments: finished.batches.length
+      };
+    } finally {
+      signal.removeEventListener('abort', cancel);
+    }
+  } finally {
+    source?.dispose();
+    release();
+  }
+};
+
+// One subtitle file per finished item, named after its video. Files sharing a
+// name (e.g. from different folders) get a numeric suffix.
+export const buildBatchArchive = (items: BatchItem[], format: SubtitleSerializer): Uint8Array<ArrayBuffer> => {
+  const entries: Record<string, Uint8Array> = {};
+  items.forEach(item => {
+    if (!item.result) return;
+    const base = item.file.name.replace(/\.[^.]+$/, '');
+    let name = `${base}.${format.extension}`;
+    for (let n = 2; name in entries; n++) name = `${base} (${n}).${format.extension}`;
+    entries[name] = strToU8(format.serialize(item.result.subtitles, { regions: item.result.regions, metadata: item.result.metadata }));
+  });
+  return zipSync(entries);
+};
@@ -0,0 +1,64 @@
+import { CapturedFrame } from "../types";
+import { SignedFrame, signatureDistance } from "./frameDiff";
+
+export interface SegmentScanOptions {
+  start: number;
+  end: number;
+  step: number;
+  precision: number;
+  threshold: number;
+}
+
+// One seek yields a crop for every region, in a fixed order
+type FrameCapture = (time: number) => Promise<SignedFrame[]>;
+
+// Two-phase scan: coarse samples locate changes in each subtitle region, then each
+// change is bisected down to `precision` seconds to pin the exact in/out time.
+// Returns, per region, one frame per stable segment spanning timestamp..endTimestamp.
+export const scanSegments = async (
+  capture: FrameCapture,
+  { start, end, step, precision, threshold }: SegmentScanOptions,
+  onProgress: (fraction: number, message: string) => void
+): Promise<CapturedFrame[][]> => {
+  const totalSteps = Math.max(1, Math.ceil((end - start) / step));
+
+  const anchors = await capture(start);
+  const segments: CapturedFrame[][] = anchors.map(a => [{ data: a.data, timestamp: start, endTimestamp: start }]);
+  let previousTime = start;
+
+  for (let i = 1; i <= totalSteps; i++) {
+    const time = Math.min(start + i * step, end);
+    const frames = await capture(time);
+
+    for (let r = 0; r < frames.length; r++) {
+      const frame = frames[r];
+      const track = segments[r];
+
+      if (signatureDistance(anchors[r].signature, frame.signature) > threshold) {
+        onProgress(i / totalSteps, `Refining boundary near ${time.toFixed(2)}s...`);
+
+        let lo = previousTime;
+        let hi = time;
+        while (hi - lo > precision) {
+          const mid = (lo + hi) / 2;
+          const probe = (await capture(mid))[r];
+          if (signatureDistance(anchors[r].signature, probe.signature) <= threshold) lo = mid;
+          else hi = mid;
+        }
+
+        track[track.length - 1].endTimestamp = lo;
+        // The coarse frame sits well inside the new segment, away from any fade transition
+        anchors[r] = frame;
+        track.push({ data: frame.data, timestamp: hi, endTimestamp: time });
+      } else {
+        track[track.length - 1].endTimestamp = time;
+      }
+    }
+
+    previousTime = time;
+    onProgress(i / totalSteps, `Scanning segments (${Math.round((i / totalSteps) * 100)}%)...`);
+    if (time >= end) break;
+  }
+
+  return segments;
+};
@@ -0,0 +1,72 @@
+import { SubtitleEntry } from "../types";
+
+export interface StitchOptions {
+  maxGap: number; // seconds between two sightings of the same line that still count as one cue
+  minSimilarity: number; // 0-1, normalised edit-distance similarity
+}
+
+const DEFAULT_STITCH: StitchOptions = { maxGap: 0.3, minSimilarity: 0.8 };
+
+// Compare on letters only so punctuation and spacing noise between batches doesn't split cues
+const normalize = (text: string) => text.toLowerCase().replace(/[\s\p{P}\p{S}]+/gu, '');
+
+export const editDistance = (a: string, b: string): number => {
+  const s = Array.from(a);
+  const t = Array.from(b);
+  let previous = Array.from({ length: t.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= s.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= t.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (s[i - 1] === t[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[t.length];
+};
+
+export const textSimilarity = (a: string, b: string): number => {
+  const x = normalize(a);
+  const y = normalize(b);
+  const longest = Math.max(Array.from(x).length, Array.from(y).length);
+  if (longest === 0) return 1;
+  return 1 - editDistance(x, y) / longest;
+};
+
+// Reconciles cues reported by overlapping batches into one cue per on-screen line
+export const stitchCues = (subs: SubtitleEntry[], options: Partial<StitchOptions> = {}): SubtitleEntry[] => {
+  const { maxGap, minSimilarity } = { ...DEFAULT_STITCH, ...options };
+  const finalSubs: SubtitleEntry[] = [];
+  const sorted = [...subs].sort((a, b) => a.startTime - b.startTime);
+
+  sorted.forEach(sub => {
+    if (sub.text.trim().length === 0) return;
+
+    // Several lines can be on screen at once, so look at every cue still in reach
+    const match = finalSubs.find(prev =>
+      prev.regionId === sub.regionId &&
+      sub.startTime <= prev.endTime + maxGap &&
+      textSimilarity(prev.text, sub.text) >= minSimilarity
+    );
+
+    if (match) {
+      match.endTime = Math.max(match.endTime, sub.endTime);
+      // A batch boundary can truncate a reading; keep the more complete one
+      const [kept, other] = normalize(sub.text).length > normalize(match.text).length ? [sub, match] : [match, sub];
+      // A different spelling of the same line is worth offering to the reviewer
+      const alternates = [...(kept.alternates ?? []), ...(other.alternates ?? [])];
+      if (other.text !== kept.text) alternates.unshift(other.text);
+      match.text = kept.text;
+      match.confidence = kept.confidence;
+      match.language = kept.language ?? other.language;
+      match.alternates = alternates.length > 0 ? [...new Set(alternates)].filter(a => a !== kept.text) : undefined;
+    } else {
+      finalSubs.push({ ...sub });
+    }
+  });
+
+  return finalSubs;
+};
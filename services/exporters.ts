@@ -0,0 +1,156 @@
+import { SubtitleArea, SubtitleEntry, SubtitleRegion, VideoMetadata } from "../types";
+import { cueRegionId } from "./regions";
+import { isRightToLeft } from "./languages";
+
+export type ExportTextMode = 'original' | 'translation' | 'both';
+
+export interface ExportContext {
+  regions?: SubtitleRegion[];
+  metadata?: VideoMetadata | null;
+  textMode?: ExportTextMode; // defaults to the original text
+}
+
+// Untranslated cues keep their original text in every mode
+export const cueText = (sub: SubtitleEntry, mode: ExportTextMode = 'original') => {
+  if (!sub.translation || mode === 'original') return sub.text;
+  return mode === 'translation' ? sub.translation : `${sub.text}\n${sub.translation}`;
+};
+
+// Embeds right-to-left lines (RLE ... PDF) so players without bidi detection keep
+// punctuation at the correct end
+const embedDirection = (text: string) =>
+  text.split('\n').map(line => isRightToLeft(line) ? `\u202B${line}\u202C` : line).join('\n');
+
+const areaOf = (sub: SubtitleEntry, regions: SubtitleRegion[] = []): SubtitleArea | undefined =>
+  regions.find(r => r.id === cueRegionId(sub, regions))?.area;
+
+export interface SubtitleSerializer {
+  label: string;
+  extension: string;
+  mimeType: string;
+  serialize: (subs: SubtitleEntry[], context: ExportContext) => string;
+}
+
+interface TimestampOptions {
+  hourDigits?: number;
+  fractionDigits?: number;
+  fractionSeparator?: string;
+}
+
+// Rounds once on the smallest unit so values like 1.9999 never render as 1,1000
+export const formatTimestamp = (
+  seconds: number,
+  { hourDigits = 2, fractionDigits = 3, fractionSeparator = ',' }: TimestampOptions = {}
+) => {
+  const scale = 10 ** fractionDigits;
+  const units = Math.max(0, Math.round(seconds * scale));
+  const totalSeconds = Math.floor(units / scale);
+  const h = Math.floor(totalSeconds / 3600);
+  const m = Math.floor((totalSeconds % 3600) / 60);
+  const s = totalSeconds % 60;
+  const fraction = units % scale;
+  return `${h.toString().padStart(hourDigits, '0')}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}${fractionSeparator}${fraction.toString().padStart(fractionDigits, '0')}`;
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const serializeSRT = (subs: SubtitleEntry[], { textMode }: ExportContext) =>
+  subs.map((s, i) => `${i + 1}\n${formatTimestamp(s.startTime)} --> ${formatTimestamp(s.endTime)}\n${embedDirection(cueText(s, textMode))}\n`).join('\n');
+
+const serializeVTT = (subs: SubtitleEntry[], { regions, textMode }: ExportContext) => {
+  // Anchor cues to the bottom-centre of their extraction zone
+  const settings = (area?: SubtitleArea) => area
+    ? ` line:${(area.y + area.height).toFixed(1)}%,end position:${(area.x + area.width / 2).toFixed(1)}% size:${area.width.toFixed(1)}% align:center`
+    : '';
+  const cues = subs.map(s =>
+    `${formatTimestamp(s.startTime, { fractionSeparator: '.' })} --> ${formatTimestamp(s.endTime, { fractionSeparator: '.' })}${settings(areaOf(s, regions))}\n${embedDirection(cueText(s, textMode)).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')}\n`
+  );
+  return ['WEBVTT\n', ...cues].join('\n');
+};
+
+const serializeASS = (subs: SubtitleEntry[], { regions, metadata, textMode }: ExportContext) => {
+  const width = metadata?.width || 1920;
+  const height = metadata?.height || 1080;
+  const fontSize = Math.round(height * 0.05);
+  const position = (area?: SubtitleArea) => area
+    ? `{\\an2\\pos(${Math.round(((area.x + area.width / 2) / 100) * width)},${Math.round(((area.y + area.height) / 100) * height)})}`
+    : '';
+  const assTime = (t: number) => formatTimestamp(t, { hourDigits: 1, fractionDigits: 2, fractionSeparator: '.' });
+  const assText = (text: string) => text.replace(/[{}]/g, '').replace(/\r?\n/g, '\\N');
+  // Dual-language lines switch to the smaller Translation style for the second language
+  const dialogueText = (sub: SubtitleEntry) => textMode === 'both' && sub.translation
+    ? `${assText(embedDirection(sub.text))}\\N{\\rTranslation}${assText(embedDirection(sub.translation))}`
+    : assText(embedDirection(cueText(sub, textMode)));
+  const regionName = (sub: SubtitleEntry) => (regions?.find(r => r.id === cueRegionId(sub, regions))?.name ?? '').replace(/,/g, ' ');
+
+  return [
+    '[Script Info]',
+    'ScriptType: v4.00+',
+    `PlayResX: ${width}`,
+    `PlayResY: ${height}`,
+    'WrapStyle: 0',
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    `Style: Default,Arial,${fontSize},&H00FFFFFF,&H000000FF,&H00000000,&H64000000,0,0,0,0,100,100,0,0,1,2,1,2,10,10,${Math.round(height * 0.05)},1`,
+    `Style: Translation,Arial,${Math.round(fontSize * 0.8)},&H0000E6FF,&H000000FF,&H00000000,&H64000000,0,1,0,0,100,100,0,0,1,2,1,2,10,10,${Math.round(height * 0.05)},1`,
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    // The Name field carries the region so combined tracks stay separable
+    ...subs.map(s => `Dialogue: 0,${assTime(s.startTime)},${assTime(s.endTime)},Default,${regionName(s)},0,0,0,,${position(areaOf(s, regions))}${dialogueText(s)}`),
+    ''
+  ].join('\n');
+};
+
+const serializeTTML = (subs: SubtitleEntry[], { regions = [], textMode }: ExportContext) => {
+  const ttmlTime = (t: number) => formatTimestamp(t, { fractionSeparator: '.' });
+  const layout = regions.map(r =>
+    `      <region xml:id="${r.id}" tts:origin="${r.area.x.toFixed(1)}% ${r.area.y.toFixed(1)}%" tts:extent="${r.area.width.toFixed(1)}% ${r.area.height.toFixed(1)}%" tts:displayAlign="after" tts:textAlign="center"/>\n`
+  ).join('');
+  const regionAttr = (sub: SubtitleEntry) => {
+    const id = regions.length > 0 ? cueRegionId(sub, regions) : undefined;
+    return id ? ` region="${id}"` : '';
+  };
+  const directionAttr = (text: string) => isRightToLeft(text) ? ' tts:direction="rtl" tts:unicodeBidi="embed"' : '';
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<tt xmlns="http://www.w3.org/ns/ttml" xmlns:tts="http://www.w3.org/ns/ttml#styling" xml:lang="">
+  <head>
+    <layout>
+${layout}    </layout>
+  </head>
+  <body>
+    <div>
+${subs.map(s => `      <p begin="${ttmlTime(s.startTime)}" end="${ttmlTime(s.endTime)}"${regionAttr(s)}${directionAttr(cueText(s, textMode))}>${escapeXml(cueText(s, textMode)).replace(/\r?\n/g, '<br/>')}</p>`).join('\n')}
+    </div>
+  </body>
+</tt>
+`;
+};
+
+const serializeJSON = (subs: SubtitleEntry[]) => JSON.stringify(subs, null, 2);
+
+const serializeTXT = (subs: SubtitleEntry[], { textMode }: ExportContext) =>
+  subs.map(s => `[${s.startTime.toFixed(2)} - ${s.endTime.toFixed(2)}] ${embedDirection(cueText(s, textMode))}`).join('\n');
+
+export const EXPORT_FORMATS: SubtitleSerializer[] = [
+  { label: 'SRT', extension: 'srt', mimeType: 'text/plain', serialize: serializeSRT },
+  { label: 'VTT', extension: 'vtt', mimeType: 'text/vtt', serialize: serializeVTT },
+  { label: 'ASS', extension: 'ass', mimeType: 'text/plain', serialize: serializeASS },
+  { label: 'TTML', extension: 'ttml', mimeType: 'application/ttml+xml', serialize: serializeTTML },
+  { label: 'JSON', extension: 'json', mimeType: 'application/json', serialize: serializeJSON },
+  { label: 'TXT', extension: 'txt', mimeType: 'text/plain', serialize: serializeTXT }
+];
+
+export const downloadFile = (content: BlobPart, filename: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
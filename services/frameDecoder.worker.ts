@@ -0,0 +1,210 @@
+import { createFile, Box, DataStream, Endianness, MP4BoxBuffer, ISOFile, Sample, VisualSampleEntry } from 'mp4box';
+import { SubtitleArea } from '../types';
+import { editListOffset } from './mp4EditList';
+
+export type DecoderRequest =
+  | { type: 'open'; file: File }
+  | { type: 'crop'; id: number; time: number; areas: SubtitleArea[] }
+  | { type: 'grab'; id: number; time: number; width: number };
+
+export type DecoderResponse =
+  | { type: 'ready' }
+  | { type: 'failed'; message: string }
+  | { type: 'frames'; id: number; bitmaps: (ImageBitmap | null)[] }
+  | { type: 'error'; id: number; message: string };
+
+const READ_CHUNK = 1024 * 1024;
+// Samples fed past the target before flushing, so reordered (B-)frames can come out
+const REORDER_LOOKAHEAD = 8;
+
+interface DecodeTarget {
+  timestamp: number; // microseconds
+  resolve: (frame: VideoFrame) => void;
+  reject: (err: Error) => void;
+}
+
+let file: File;
+let samples: Sample[] = [];
+let config: VideoDecoderConfig;
+let presentationOffset = 0; // seconds added to a sample's CTS to place it on the player's timeline
+let decoder: VideoDecoder | null = null;
+let fedIndex = -1; // last sample handed to the decoder since its keyframe
+let target: DecodeTarget | null = null;
+let canvas: OffscreenCanvas | null = null;
+
+const post = (message: DecoderResponse, transfer: Transferable[] = []) =>
+  self.postMessage(message, { transfer });
+
+const toMicros = (sample: Sample) => Math.round((sample.cts * 1e6) / sample.timescale);
+
+// Codec private data (avcC, hvcC, vpcC or av1C) without its box header
+const codecDescription = (isoFile: ISOFile, trackId: number): Uint8Array | undefined => {
+  for (const entry of isoFile.getTrackById(trackId).mdia.minf.stbl.stsd.entries) {
+    const { avcC, hvcC, vpcC, av1C } = entry as VisualSampleEntry;
+    const box: Box | undefined = avcC ?? hvcC ?? vpcC ?? av1C;
+    if (box) {
+      const stream = new DataStream(undefined, 0, Endianness.BIG_ENDIAN);
+      box.write(stream);
+      return new Uint8Array(stream.buffer, 8);
+    }
+  }
+  return undefined;
+};
+
+// Parses only the movie header, reading the file piecewise wherever mp4box asks next
+const demux = async (source: File) => {
+  const isoFile = createFile(false);
+  let failure: Error | null = null;
+  let ready = false;
+
+  isoFile.onReady = info => {
+    ready = true;
+    const track = info.videoTracks[0];
+    if (!track) return void (failure = new Error("No video track found."));
+    if (info.isFragmented) return void (failure = new Error("Fragmented MP4 is not supported."));
+
+    samples = isoFile.getTrackSamplesInfo(track.id);
+    presentationOffset = editListOffset(isoFile, track.id, info.timescale, track.timescale);
+    config = {
+      codec: track.codec.startsWith('vp08') ? 'vp8' : track.codec,
+      codedWidth: track.video?.width ?? track.track_width,
+      codedHeight: track.video?.height ?? track.track_height,
+      description: codecDescription(isoFile, track.id)
+    };
+  };
+  isoFile.onError = (_module, message) => { failure = new Error(message); };
+
+  let offset = 0;
+  while (!ready && !failure && offset < source.size) {
+    const buffer = MP4BoxBuffer.fromArrayBuffer(await source.slice(offset, offset + READ_CHUNK).arrayBuffer(), offset);
+    offset = isoFile.appendBuffer(buffer) ?? offset + READ_CHUNK;
+  }
+  isoFile.flush();
+
+  if (failure) throw failure;
+  if (!ready) throw new Error("No MP4 movie header found.");
+};
+
+const resetDecoder = () => {
+  decoder?.close();
+  fedIndex = -1;
+  decoder = new VideoDecoder({
+    output: frame => {
+      if (target && frame.timestamp === target.timestamp) {
+        target.resolve(frame);
+        target = null;
+      } else {
+        frame.close();
+      }
+    },
+    error: err => {
+      target?.reject(err);
+      target = null;
+    }
+  });
+  decoder.configure(config);
+};
+
+const feed = async (index: number) => {
+  const sample = samples[index];
+  const data = await file.slice(sample.offset, sample.offset + sample.size).arrayBuffer();
+  decoder!.decode(new EncodedVideoChunk({
+    type: sample.is_sync ? 'key' : 'delta',
+    timestamp: toMicros(sample),
+    duration: Math.round((sample.duration * 1e6) / sample.timescale),
+    data
+  }));
+  fedIndex = index;
+};
+
+// Decodes the frame on screen at `time`. Consecutive requests inside one GOP keep the
+// decoder running; anything else restarts it from the preceding keyframe.
+const decodeFrameAt = async (time: number): Promise<VideoFrame> => {
+  let shown = -1;
+  samples.forEach((s, i) => {
+    if (s.cts / s.timescale + presentationOffset <= time && (shown < 0 || s.cts > samples[shown].cts)) shown = i;
+  });
+  if (shown < 0) shown = 0;
+
+  let keyframe = shown;
+  while (keyframe > 0 && !samples[keyframe].is_sync) keyframe--;
+
+  if (!decoder || decoder.state !== 'configured' || fedIndex < keyframe - 1 || fedIndex >= shown) {
+    resetDecoder();
+    for (let i = keyframe; i < shown; i++) await feed(i);
+  }
+
+  const frame = new Promise<VideoFrame>((resolve, reject) => {
+    target = { timestamp: toMicros(samples[shown]), resolve, reject };
+  });
+  const last = Math.min(samples.length - 1, shown + REORDER_LOOKAHEAD);
+  while (target && fedIndex < last) {
+    await feed(fedIndex + 1);
+    // Let the decoder emit before deciding whether more input is needed
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+  if (target) {
+    // Flushing forces the frame out but leaves the decoder needing a keyframe
+    await decoder!.flush();
+    fedIndex = samples.length;
+  }
+  if (target) {
+    target.reject(new Error(`No frame decoded at ${time.toFixed(2)}s.`));
+    target = null;
+  }
+  return frame;
+};
+
+const drawFrame = (frame: VideoFrame, width: number, height: number): OffscreenCanvas => {
+  if (!canvas || canvas.width !== width || canvas.height !== height) canvas = new OffscreenCanvas(width, height);
+  canvas.getContext('2d')!.drawImage(frame, 0, 0, width, height);
+  frame.close();
+  return canvas;
+};
+
+const handleRequest = async (request: Exclude<DecoderRequest, { type: 'open' }>) => {
+  try {
+    const frame = await decodeFrameAt(request.time);
+    const width = frame.displayWidth;
+    const height = frame.displayHeight;
+
+    if (request.type === 'grab') {
+      const surface = drawFrame(frame, request.width, Math.round(request.width * height / width));
+      const bitmap = await createImageBitmap(surface);
+      return post({ type: 'frames', id: request.id, bitmaps: [bitmap] }, [bitmap]);
+    }
+
+    const surface = drawFrame(frame, width, height);
+    const bitmaps = await Promise.all(request.areas.map(area => {
+      const sw = Math.round((area.width / 100) * width);
+      const sh = Math.round((area.height / 100) * height);
+      if (sw <= 0 || sh <= 0) return null;
+      return createImageBitmap(surface, Math.round((area.x / 100) * width), Math.round((area.y / 100) * height), sw, sh);
+    }));
+    post({ type: 'frames', id: request.id, bitmaps }, bitmaps.filter((b): b is ImageBitmap => b !== null));
+  } catch (err) {
+    post({ type: 'error', id: request.id, message: err instanceof Error ? err.message : String(err) });
+  }
+};
+
+// Requests are handled one at a time so the decoder state stays consistent
+let queue: Promise<void> = Promise.resolve();
+
+self.onmessage = (e: MessageEvent<DecoderRequest>) => {
+  const request = e.data;
+  if (request.type === 'open') {
+    file = request.file;
+    queue = queue.then(async () => {
+      try {
+        await demux(file);
+        const support = await VideoDecoder.isConfigSupported(config);
+        if (!support.supported) throw new Error(`Codec ${config.codec} cannot be decoded here.`);
+        post({ type: 'ready' });
+      } catch (err) {
+        post({ type: 'failed', message: err instanceof Error ? err.message : String(err) });
+      }
+    });
+    return;
+  }
+  queue = queue.then(() => handleRequest(request));
+};
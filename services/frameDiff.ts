@@ -0,0 +1,69 @@
+import { CapturedFrame } from "../types";
+
+const HASH_WIDTH = 64;
+const HASH_HEIGHT = 12;
+
+// Size a crop must be scaled to before hashing: one extra column for the last gradient
+export const SIGNATURE_SOURCE_SIZE = { width: HASH_WIDTH + 1, height: HASH_HEIGHT };
+
+export interface SignedFrame extends CapturedFrame {
+  signature: Uint8Array;
+}
+
+// Difference hash of the crop: one bit per horizontal gradient, so it follows
+// the stroke layout of the text rather than absolute brightness.
+// `luma` is a SIGNATURE_SOURCE_SIZE grayscale image, row by row.
+export const computeLumaSignature = (luma: ArrayLike<number>): Uint8Array => {
+  const stride = SIGNATURE_SOURCE_SIZE.width;
+  const bits = new Uint8Array(HASH_WIDTH * HASH_HEIGHT);
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH; x++) {
+      const px = y * stride + x;
+      bits[y * HASH_WIDTH + x] = luma[px] > luma[px + 1] ? 1 : 0;
+    }
+  }
+  return bits;
+};
+
+export const computeFrameSignature = (source: HTMLCanvasElement): Uint8Array => {
+  const canvas = document.createElement('canvas');
+  canvas.width = SIGNATURE_SOURCE_SIZE.width;
+  canvas.height = SIGNATURE_SOURCE_SIZE.height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return new Uint8Array(0);
+
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const luma = new Float32Array(canvas.width * canvas.height);
+  for (let px = 0; px < luma.length; px++) {
+    luma[px] = data[px * 4] * 0.299 + data[px * 4 + 1] * 0.587 + data[px * 4 + 2] * 0.114;
+  }
+  return computeLumaSignature(luma);
+};
+
+// Fraction of differing hash bits, 0 (identical) to 1
+export const signatureDistance = (a: Uint8Array, b: Uint8Array): number => {
+  if (a.length === 0 || a.length !== b.length) return 1;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) diff++;
+  }
+  return diff / a.length;
+};
+
+export const collapseUnchangedFrames = (frames: SignedFrame[], threshold: number): CapturedFrame[] => {
+  const result: CapturedFrame[] = [];
+  let anchor: SignedFrame | null = null;
+
+  frames.forEach(frame => {
+    // Compare against the first frame of the run so slow drift still registers as change
+    if (anchor && signatureDistance(anchor.signature, frame.signature) <= threshold) {
+      result[result.length - 1].endTimestamp = frame.timestamp;
+      return;
+    }
+    anchor = frame;
+    result.push({ data: frame.data, timestamp: frame.timestamp });
+  });
+
+  return result;
+};
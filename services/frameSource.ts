@@ -0,0 +1,211 @@
+import { PreprocessSettings, SubtitleArea, VideoMetadata } from "../types";
+import { SignedFrame, computeFrameSignature } from "./frameDiff";
+import { preprocessFrame, encodeFrame } from "./imagePreprocessor";
+import type { DecoderRequest, DecoderResponse } from "./frameDecoder.worker";
+
+// Delivers video frames by timestamp, either decoded off the main thread or by seeking the player
+export interface FrameSource {
+  kind: 'decoder' | 'seek';
+  // One crop per area, null where the crop could not be taken
+  crop(time: number, areas: SubtitleArea[]): Promise<(HTMLCanvasElement | null)[]>;
+  // Whole frame scaled to `width` pixels wide
+  grab(time: number, width: number): Promise<ImageData | null>;
+  dispose(): void;
+}
+
+const SEEK_TIMEOUT = 10_000;
+
+export const cropVideoFrame = (video: HTMLVideoElement, area: SubtitleArea): HTMLCanvasElement | null => {
+  const canvas = document.createElement('canvas');
+  const cropX = (area.x / 100) * video.videoWidth;
+  const cropY = (area.y / 100) * video.videoHeight;
+  const cropW = (area.width / 100) * video.videoWidth;
+  const cropH = (area.height / 100) * video.videoHeight;
+
+  canvas.width = cropW;
+  canvas.height = cropH;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  ctx.drawImage(video, cropX, cropY, cropW, cropH, 0, 0, cropW, cropH);
+  return canvas;
+};
+
+const scaleVideoFrame = (source: CanvasImageSource, sourceWidth: number, sourceHeight: number, width: number): ImageData | null => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = Math.round(width * sourceHeight / sourceWidth);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+const bitmapToCanvas = (bitmap: ImageBitmap | null): HTMLCanvasElement | null => {
+  if (!bitmap) return null;
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return canvas;
+};
+
+// Fallback that drives the visible player. Rejects if the browser never reports the seek.
+export const createSeekFrameSource = (getVideo: () => HTMLVideoElement | null): FrameSource => {
+  const seekTo = (time: number): Promise<HTMLVideoElement | null> => new Promise((resolve, reject) => {
+    const video = getVideo();
+    if (!video) return resolve(null);
+    const timer = setTimeout(() => {
+      video.removeEventListener('seeked', onSeeked);
+      reject(new Error(`Seeking to ${time.toFixed(2)}s timed out.`));
+    }, SEEK_TIMEOUT);
+    const onSeeked = () => {
+      clearTimeout(timer);
+      video.removeEventListener('seeked', onSeeked);
+      resolve(video);
+    };
+    video.addEventListener('seeked', onSeeked);
+    video.currentTime = Math.min(time, video.duration);
+  });
+
+  return {
+    kind: 'seek',
+    async crop(time, areas) {
+      const video = await seekTo(time);
+      return areas.map(area => video && cropVideoFrame(video, area));
+    },
+    async grab(time, width) {
+      const video = await seekTo(time);
+      if (!video || !video.videoWidth) return null;
+      return scaleVideoFrame(video, video.videoWidth, video.videoHeight, width);
+    },
+    dispose() {}
+  };
+};
+
+// A detached player for files that are not on screen, e.g. queued batch items
+export const loadVideoElement = (file: File): Promise<{ video: HTMLVideoElement; metadata: VideoMetadata; release: () => void }> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement('video');
+    const release = () => {
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
+    };
+    video.muted = true;
+    video.preload = 'auto';
+    video.onloadedmetadata = () => resolve({
+      video,
+      metadata: {
+        duration: video.duration,
+        width: video.videoWidth,
+        height: video.videoHeight,
+        aspectRatio: video.videoWidth / video.videoHeight
+      },
+      release
+    });
+    video.onerror = () => {
+      release();
+      reject(new Error(`${file.name} could not be opened as a video.`));
+    };
+    video.src = url;
+  });
+
+// Crops every area from the same frame. Signatures follow the processed image,
+// so keyed-out background motion is ignored.
+export const captureRegions = async (
+  source: FrameSource,
+  time: number,
+  areas: SubtitleArea[],
+  preprocess: PreprocessSettings
+): Promise<SignedFrame[]> => {
+  const crops = await source.crop(time, areas);
+  return crops.map(crop => {
+    if (!crop) return { data: '', timestamp: time, signature: new Uint8Array(0) };
+    const canvas = preprocessFrame(crop, preprocess);
+    return {
+      data: encodeFrame(canvas, preprocess),
+      timestamp: time,
+      signature: computeFrameSignature(canvas)
+    };
+  });
+};
+
+// Decodes the file in a worker with WebCodecs, leaving the player untouched.
+// Rejects when the browser, container or codec is unsupported. A frame that fails to
+// decode later on (e.g. a corrupt sample) is taken from `fallback` instead, so one bad
+// timestamp doesn't fail the whole scan.
+export const createDecoderFrameSource = (file: File, fallback?: FrameSource): Promise<FrameSource> => {
+  if (typeof VideoDecoder === 'undefined' || typeof OffscreenCanvas === 'undefined') {
+    return Promise.reject(new Error("WebCodecs is not available in this browser."));
+  }
+
+  const worker = new Worker(new URL('./frameDecoder.worker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<number, { resolve: (bitmaps: (ImageBitmap | null)[]) => void; reject: (err: Error) => void }>();
+  let nextId = 0;
+  let disposed = false;
+
+  const request = (message: DecoderRequest & { id: number }) =>
+    new Promise<(ImageBitmap | null)[]>((resolve, reject) => {
+      pending.set(message.id, { resolve, reject });
+      worker.postMessage(message);
+    });
+
+  const orFallback = async <T>(time: number, decode: () => Promise<T>, fromFallback: (source: FrameSource) => Promise<T>) => {
+    try {
+      return await decode();
+    } catch (err) {
+      if (!fallback || disposed) throw err;
+      console.warn(`Decoding failed at ${time.toFixed(2)}s, seeking instead:`, err);
+      return fromFallback(fallback);
+    }
+  };
+
+  const source: FrameSource = {
+    kind: 'decoder',
+    crop(time, areas) {
+      return orFallback(time, async () => {
+        const bitmaps = await request({ type: 'crop', id: nextId++, time, areas });
+        return bitmaps.map(bitmapToCanvas);
+      }, f => f.crop(time, areas));
+    },
+    grab(time, width) {
+      return orFallback(time, async () => {
+        const [bitmap] = await request({ type: 'grab', id: nextId++, time, width });
+        if (!bitmap) return null;
+        const image = scaleVideoFrame(bitmap, bitmap.width, bitmap.height, width);
+        bitmap.close();
+        return image;
+      }, f => f.grab(time, width));
+    },
+    dispose() {
+      disposed = true;
+      worker.terminate();
+      pending.forEach(p => p.reject(new Error("Frame source closed.")));
+      pending.clear();
+    }
+  };
+
+  return new Promise((resolve, reject) => {
+    worker.onmessage = (e: MessageEvent<DecoderResponse>) => {
+      const message = e.data;
+      if (message.type === 'ready') return resolve(source);
+      if (message.type === 'failed') {
+        worker.terminate();
+        return reject(new Error(message.message));
+      }
+      const waiting = pending.get(message.id);
+      pending.delete(message.id);
+      if (message.type === 'frames') waiting?.resolve(message.bitmaps);
+      else waiting?.reject(new Error(message.message));
+    };
+    worker.onerror = (e) => {
+      source.dispose();
+      reject(new Error(e.message || "Frame decoder worker failed to start."));
+    };
+    worker.postMessage({ type: 'open', file } satisfies DecoderRequest);
+  });
+};
@@ -1,10 +1,29 @@
 
 import { GoogleGenAI, Type, GenerateContentResponse } from "@google/genai";
-import { SubtitleEntry, OCRLanguage } from "../types";
+import { SubtitleEntry, OCRLanguage, OCREngineType, CapturedFrame, TokenUsage } from "../types";
+import type { OCREngine, OCRRequestOptions, TranslationEngine, TranslationRequest } from "./ocrEngine";
+import { createSubtitleId } from "./subtitleEditor";
+import { parseLanguageName } from "./languages";
 
-const OCR_PROMPT = (language: string) => `
+const OCR_MODEL = 'gemini-3-pro-preview'; // Pro model for maximum accuracy on small text and brief lines
+
+// USD per million tokens for OCR_MODEL (prompts up to 200k tokens)
+const PRICE_PER_MILLION = { input: 2.0, output: 12.0 };
+
+const KNOWN_LANGUAGES = Object.values(OCRLanguage).filter(l => l !== OCRLanguage.Auto).join(', ');
+
+const languageLine = ([primary, ...others]: OCRLanguage[]) => {
+  if (primary === OCRLanguage.Auto) {
+    return `LANGUAGE: Detect the language of each line${others.length ? ` (most likely ${others.join(' or ')})` : ''}.`;
+  }
+  return others.length
+    ? `LANGUAGE PRIORITY: ${primary}, mixed with ${others.join(', ')}. Lines may switch language from one to the next.`
+    : `LANGUAGE PRIORITY: ${primary}.`;
+};
+
+const OCR_PROMPT = (languages: OCRLanguage[]) => `
 OBJECTIVE: Extract all hard-coded subtitles/captions from the provided sequence of video frames.
-LANGUAGE PRIORITY: ${language}.
+${languageLine(languages)}
 
 INSTRUCTIONS:
 1. Examine EVERY frame carefully for text.
@@ -14,21 +33,97 @@ INSTRUCTIONS:
 5. MULTIPLE LINES: If multiple characters speak at once and subtitles show multiple lines, preserve all of them in a single "text" block, separated by a newline.
 6. CHARACTER LINES: Ensure distinct lines from different characters are captured sequentially.
 7. OMIT: Ignore watermarks, station logos, or background signs that are not part of the hard-subtitles.
+8. HELD FRAMES: A timestamp given as a range (e.g. "12.50-15.00s") means the subtitle area did not change during that span; treat the range end as the last time that frame's text is visible.
+9. CONFIDENCE: Rate how certain you are of each line's exact text from 0 to 1. Lower it for blurred, partly covered or stylised glyphs. When unsure, list other plausible readings in "alternates".
+10. LANGUAGE: Name each line's language in "language" as one of: ${KNOWN_LANGUAGES}. Keep right-to-left text in logical (reading) order.
 
-OUTPUT FORMAT: Return a JSON array of objects with keys: "text", "startTime", "endTime".
-Example: [{"text": "Hello, how are you?", "startTime": 12.5, "endTime": 14.2}]
+OUTPUT FORMAT: Return a JSON array of objects with keys: "text", "startTime", "endTime", "confidence", "language" and optionally "alternates".
+Example: [{"text": "Hello, how are you?", "startTime": 12.5, "endTime": 14.2, "confidence": 0.96, "language": "English"}]
 `;
 
-export class GeminiOCRService {
-  private ai: GoogleGenAI;
+const TRANSLATION_PROMPT = ({ source, target, lines, before, after }: TranslationRequest) => `
+OBJECTIVE: Translate consecutive subtitle lines ${source === OCRLanguage.Auto ? 'from their original language(s)' : `from ${source}`} into ${target}.
+
+INSTRUCTIONS:
+1. Translate every numbered line into natural, idiomatic ${target} that fits on screen as a subtitle.
+2. Keep each line's meaning and tone; use the surrounding lines to resolve pronouns, names and ellipsis.
+3. " / " inside a line marks a line break. Keep it where it separates speakers.
+4. Return exactly one translation per numbered line, with the same index. Never merge or split lines.
+5. CONTEXT lines are for reference only. Do not translate them.
+
+CONTEXT BEFORE:
+${before.join('\n') || '(none)'}
+
+LINES:
+${lines.map((line, i) => `[${i}] ${line.replace(/\n/g, ' / ')}`).join('\n')}
+
+CONTEXT AFTER:
+${after.join('\n') || '(none)'}
+`;
+
+export class GeminiOCRService implements OCREngine, TranslationEngine {
+  readonly type = OCREngineType.Gemini;
+  readonly requiresNetwork = true;
+  private client: GoogleGenAI | null = null;
+
+  // Created on first use, so importing the module never needs the key
+  private get ai(): GoogleGenAI {
+    this.client ??= new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
+    return this.client;
+  }
+
+  estimateCost(usage: TokenUsage): number {
+    return (usage.promptTokens * PRICE_PER_MILLION.input + usage.outputTokens * PRICE_PER_MILLION.output) / 1_000_000;
+  }
 
-  constructor() {
-    this.ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
+  private reportUsage(response: GenerateContentResponse, options: OCRRequestOptions) {
+    const usage = response.usageMetadata;
+    if (!usage) return;
+    const outputTokens = (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0);
+    options.onUsage?.({
+      promptTokens: usage.promptTokenCount || 0,
+      outputTokens,
+      totalTokens: usage.totalTokenCount || (usage.promptTokenCount || 0) + outputTokens
+    });
+  }
+
+  async translateLines(request: TranslationRequest, options: OCRRequestOptions = {}): Promise<string[]> {
+    if (!process.env.API_KEY) {
+      throw new Error("API Key is missing. Check your environment settings.");
+    }
+
+    const response: GenerateContentResponse = await this.ai.models.generateContent({
+      model: OCR_MODEL,
+      contents: { parts: [{ text: TRANSLATION_PROMPT(request) }] },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              index: { type: Type.INTEGER, description: "Index of the numbered input line" },
+              text: { type: Type.STRING, description: "The translated line" }
+            },
+            required: ["index", "text"]
+          }
+        }
+      }
+    });
+    this.reportUsage(response, options);
+
+    const results: { index: number; text: string }[] = JSON.parse(response.text || '[]');
+    const translations = request.lines.map((_, i) => results.find(r => r.index === i)?.text);
+    if (translations.some(t => typeof t !== 'string')) {
+      throw new Error(`Expected ${request.lines.length} translations, got ${results.length}.`);
+    }
+    return translations.map(t => t!.replace(/ \/ /g, '\n'));
   }
 
   async processFrames(
-    frames: { data: string; timestamp: number }[],
-    language: OCRLanguage
+    frames: CapturedFrame[],
+    languages: OCRLanguage[],
+    options: OCRRequestOptions = {}
   ): Promise<SubtitleEntry[]> {
     if (!process.env.API_KEY) {
       throw new Error("API Key is missing. Check your environment settings.");
@@ -37,20 +132,24 @@ export class GeminiOCRService {
     try {
       const parts = frames.map(f => ({
         inlineData: {
-          mimeType: 'image/jpeg',
+          mimeType: f.data.slice(5, f.data.indexOf(';')),
           data: f.data.split(',')[1]
         }
       }));
 
       // We provide the model with exact timestamps for each frame in the batch
-      const frameContext = `BATCH METADATA (Timestamps): [${frames.map(f => f.timestamp.toFixed(2)).join('s, ')}s]`;
+      const frameContext = `BATCH METADATA (Timestamps): [${frames.map(f =>
+        f.endTimestamp !== undefined && f.endTimestamp > f.timestamp
+          ? `${f.timestamp.toFixed(2)}-${f.endTimestamp.toFixed(2)}`
+          : f.timestamp.toFixed(2)
+      ).join('s, ')}s]`;
       
       const response: GenerateContentResponse = await this.ai.models.generateContent({
-        model: 'gemini-3-pro-preview', // Pro model for maximum accuracy on small text and brief lines
+        model: OCR_MODEL,
         contents: {
           parts: [
             ...parts,
-            { text: `${OCR_PROMPT(language)}\n\n${frameContext}` }
+            { text: `${OCR_PROMPT(languages)}\n\n${frameContext}` }
           ]
         },
         config: {
@@ -62,23 +161,45 @@ export class GeminiOCRService {
               properties: {
                 text: { type: Type.STRING, description: "The exact dialogue text captured" },
                 startTime: { type: Type.NUMBER, description: "Exact start time in seconds based on batch metadata" },
-                endTime: { type: Type.NUMBER, description: "Exact end time in seconds based on batch metadata" }
+                endTime: { type: Type.NUMBER, description: "Exact end time in seconds based on batch metadata" },
+                confidence: { type: Type.NUMBER, description: "Certainty of the exact text, from 0 to 1" },
+                language: { type: Type.STRING, description: "Language of the line" },
+                alternates: {
+                  type: Type.ARRAY,
+                  items: { type: Type.STRING },
+                  description: "Other plausible readings when the text is uncertain"
+                }
               },
-              required: ["text", "startTime", "endTime"]
+              required: ["text", "startTime", "endTime", "confidence"]
             }
           }
         }
       });
 
+      this.reportUsage(response, options);
+
       const text = response.text || '[]';
       const results = JSON.parse(text);
 
-      return results.map((r: any, idx: number) => ({
-        id: `sub-${Date.now()}-${idx}-${Math.random().toString(36).substring(2, 7)}`,
-        text: r.text,
-        startTime: parseFloat(r.startTime),
-        endTime: parseFloat(r.endTime)
-      }));
+      // With a single fixed language, an unnamed or unexpected answer still means that language
+      const fixed = languages.length === 1 && languages[0] !== OCRLanguage.Auto ? languages[0] : undefined;
+
+      return results.map((r: any, idx: number) => {
+        const confidence = parseFloat(r.confidence);
+        const language = fixed ?? parseLanguageName(r.language);
+        const alternates = Array.isArray(r.alternates)
+          ? r.alternates.filter((a: unknown) => typeof a === 'string' && a.trim() && a !== r.text)
+          : [];
+        return {
+          id: createSubtitleId(idx),
+          text: r.text,
+          startTime: parseFloat(r.startTime),
+          endTime: parseFloat(r.endTime),
+          ...(Number.isFinite(confidence) && { confidence: Math.min(1, Math.max(0, confidence)) }),
+          ...(alternates.length > 0 && { alternates }),
+          ...(language && { language })
+        };
+      });
     } catch (error) {
       console.error("Gemini High-Precision OCR Error:", error);
       throw error;
@@ -0,0 +1,109 @@
+import { PreprocessSettings } from "../types";
+
+export const DEFAULT_PREPROCESS: PreprocessSettings = {
+  upscale: 1,
+  grayscale: false,
+  contrast: 1,
+  threshold: 0,
+  keyColor: null,
+  keyTolerance: 80,
+  removeOutline: false,
+  format: 'jpeg'
+};
+
+// Luma cut-off used for outline removal when no threshold is set
+const OUTLINE_THRESHOLD = 160;
+const JPEG_QUALITY = 0.85;
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+export const rgbToHex = (r: number, g: number, b: number) =>
+  `#${[r, g, b].map(v => v.toString(16).padStart(2, '0')).join('')}`;
+
+// Outlined subtitles keep their fill separated from the background by the outline,
+// so any foreground reachable from the crop border is background and gets cleared.
+const clearBorderConnected = (mask: Uint8Array, width: number, height: number) => {
+  const stack: number[] = [];
+  for (let x = 0; x < width; x++) stack.push(x, (height - 1) * width + x);
+  for (let y = 0; y < height; y++) stack.push(y * width, y * width + width - 1);
+
+  while (stack.length > 0) {
+    const px = stack.pop()!;
+    if (!mask[px]) continue;
+    mask[px] = 0;
+    const x = px % width;
+    if (x > 0) stack.push(px - 1);
+    if (x < width - 1) stack.push(px + 1);
+    if (px >= width) stack.push(px - width);
+    if (px < (height - 1) * width) stack.push(px + width);
+  }
+};
+
+const isIdentity = (settings: PreprocessSettings) =>
+  settings.upscale <= 1 && !settings.grayscale && settings.contrast === 1 &&
+  settings.threshold === 0 && !settings.keyColor && !settings.removeOutline;
+
+// Runs the configured chain on a crop: upscale, grayscale and contrast, then either
+// colour keying or threshold binarization, then outline removal. Binarized output is
+// dark text on white, which both engines read best.
+export const preprocessFrame = (source: HTMLCanvasElement, settings: PreprocessSettings): HTMLCanvasElement => {
+  if (isIdentity(settings) || source.width === 0 || source.height === 0) return source;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(source.width * Math.max(1, settings.upscale));
+  canvas.height = Math.round(source.height * Math.max(1, settings.upscale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return source;
+
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const { data } = image;
+  const pixels = canvas.width * canvas.height;
+
+  for (let px = 0; px < pixels; px++) {
+    const i = px * 4;
+    for (let ch = 0; ch < 3; ch++) {
+      data[i + ch] = Math.max(0, Math.min(255, (data[i + ch] - 128) * settings.contrast + 128));
+    }
+    if (settings.grayscale) {
+      const luma = data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+      data[i] = data[i + 1] = data[i + 2] = luma;
+    }
+  }
+
+  const binarize = settings.keyColor || settings.threshold > 0 || settings.removeOutline;
+  if (binarize) {
+    const mask = new Uint8Array(pixels);
+    const key = settings.keyColor ? hexToRgb(settings.keyColor) : null;
+    const cutoff = settings.threshold || OUTLINE_THRESHOLD;
+
+    for (let px = 0; px < pixels; px++) {
+      const i = px * 4;
+      if (key) {
+        const distance = Math.hypot(data[i] - key[0], data[i + 1] - key[1], data[i + 2] - key[2]);
+        mask[px] = distance <= settings.keyTolerance ? 1 : 0;
+      } else {
+        mask[px] = data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114 >= cutoff ? 1 : 0;
+      }
+    }
+
+    if (settings.removeOutline) clearBorderConnected(mask, canvas.width, canvas.height);
+
+    for (let px = 0; px < pixels; px++) {
+      const value = mask[px] ? 0 : 255;
+      data[px * 4] = data[px * 4 + 1] = data[px * 4 + 2] = value;
+    }
+  }
+
+  ctx.putImageData(image, 0, 0);
+  return canvas;
+};
+
+export const encodeFrame = (canvas: HTMLCanvasElement, settings: PreprocessSettings) =>
+  settings.format === 'png'
+    ? canvas.toDataURL('image/png')
+    : canvas.toDataURL('image/jpeg', JPEG_QUALITY);
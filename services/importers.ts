@@ -0,0 +1,106 @@
+import { OCRLanguage, SubtitleEntry } from "../types";
+import { createSubtitleId } from "./subtitleEditor";
+
+// Accepts HH:MM:SS,mmm (SRT), [HH:]MM:SS.mmm (VTT) and H:MM:SS.cc (ASS)
+export const parseTimestamp = (value: string): number => {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d+))?$/);
+  if (!match) return NaN;
+  const [, h = '0', m, s, fraction = '0'] = match;
+  return Number(h) * 3600 + Number(m) * 60 + Number(s) + Number(`0.${fraction}`);
+};
+
+// Directional embeddings and overrides (LRE, RLE, PDF, LRO, RLO), as our own exports
+// add around right-to-left lines; the editor sets direction itself
+const BIDI_EMBEDDING = /[\u202A-\u202E]/g;
+
+const toEntries = (cues: Omit<SubtitleEntry, 'id'>[]): SubtitleEntry[] =>
+  cues
+    .map(c => ({ ...c, text: c.text.replace(BIDI_EMBEDDING, '').trim() }))
+    .filter(c => !isNaN(c.startTime) && !isNaN(c.endTime) && c.text.length > 0)
+    .map((c, i) => ({ id: createSubtitleId(i), ...c }))
+    .sort((a, b) => a.startTime - b.startTime);
+
+// SRT and VTT share the "start --> end" block layout; VTT cue settings after the end time are ignored
+const parseTimedBlocks = (content: string) => {
+  const cues: { startTime: number; endTime: number; text: string }[] = [];
+  content.replace(/\r\n?/g, '\n').split(/\n{2,}/).forEach(block => {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(l => l.includes('-->'));
+    if (timingIndex === -1) return;
+    const [start, rest] = lines[timingIndex].split('-->');
+    cues.push({
+      startTime: parseTimestamp(start),
+      endTime: parseTimestamp(rest.trim().split(/\s+/)[0]),
+      // Strip inline markup such as <i> or <c.yellow>
+      text: lines.slice(timingIndex + 1).join('\n').replace(/<[^>]+>/g, '')
+        .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&')
+    });
+  });
+  return cues;
+};
+
+export const parseSRT = (content: string): SubtitleEntry[] => toEntries(parseTimedBlocks(content));
+
+export const parseVTT = (content: string): SubtitleEntry[] =>
+  toEntries(parseTimedBlocks(content.replace(/^\uFEFF?WEBVTT[^\n]*/, '')));
+
+export const parseASS = (content: string): SubtitleEntry[] => {
+  const cues: { startTime: number; endTime: number; text: string }[] = [];
+  let format: string[] = [];
+  let inEvents = false;
+
+  content.replace(/\r\n?/g, '\n').split('\n').forEach(line => {
+    if (line.startsWith('[')) {
+      inEvents = line.trim().toLowerCase() === '[events]';
+      return;
+    }
+    if (!inEvents) return;
+    if (line.startsWith('Format:')) {
+      format = line.slice(7).split(',').map(f => f.trim().toLowerCase());
+    } else if (line.startsWith('Dialogue:') && format.length > 0) {
+      // Text is the last field and may itself contain commas
+      const fields = line.slice(9).split(',');
+      const values = [...fields.slice(0, format.length - 1), fields.slice(format.length - 1).join(',')].map(f => f.trim());
+      const get = (key: string) => values[format.indexOf(key)] ?? '';
+      cues.push({
+        startTime: parseTimestamp(get('start')),
+        endTime: parseTimestamp(get('end')),
+        text: get('text').replace(/\{[^}]*\}/g, '').replace(/\\[Nn]/g, '\n').replace(/\\h/g, ' ')
+      });
+    }
+  });
+  return toEntries(cues);
+};
+
+export const parseJSON = (content: string): SubtitleEntry[] => {
+  const data = JSON.parse(content);
+  if (!Array.isArray(data)) throw new Error("Expected a JSON array of subtitle entries.");
+  const strings = (value: unknown) =>
+    Array.isArray(value) && value.every(v => typeof v === 'string') ? value as string[] : undefined;
+  // Our own JSON export is a full dump, so the optional fields come back when present
+  return toEntries(data.map((d: any): Omit<SubtitleEntry, 'id'> => ({
+    startTime: Number(d.startTime),
+    endTime: Number(d.endTime),
+    text: String(d.text ?? ''),
+    regionId: typeof d.regionId === 'string' ? d.regionId : undefined,
+    confidence: typeof d.confidence === 'number' ? d.confidence : undefined,
+    alternates: strings(d.alternates),
+    frameIds: strings(d.frameIds),
+    translation: typeof d.translation === 'string' ? d.translation : undefined,
+    language: Object.values(OCRLanguage).includes(d.language) ? d.language : undefined
+  })));
+};
+
+export const IMPORT_EXTENSIONS = ['.srt', '.vtt', '.ass', '.ssa', '.json'];
+
+export const parseSubtitleFile = (filename: string, content: string): SubtitleEntry[] => {
+  const extension = filename.slice(filename.lastIndexOf('.')).toLowerCase();
+  switch (extension) {
+    case '.srt': return parseSRT(content);
+    case '.vtt': return parseVTT(content);
+    case '.ass':
+    case '.ssa': return parseASS(content);
+    case '.json': return parseJSON(content);
+    default: throw new Error(`Unsupported subtitle format: ${extension}`);
+  }
+};
@@ -0,0 +1,26 @@
+import { OCRLanguage } from "../types";
+
+// Languages a cue can be translated into
+export const TRANSLATION_LANGUAGES = Object.values(OCRLanguage).filter(l => l !== OCRLanguage.Auto);
+
+// Hebrew, Arabic (with Syriac, Thaana and N'Ko) and their presentation forms, which
+// stop short of U+FEFF (the byte order mark)
+const RTL_CHAR = /[\u0590-\u07FF\u0860-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFC]/;
+const STRONG_CHAR = /\p{L}/u;
+
+// Direction follows the first letter, as `dir="auto"` does in the browser
+export const isRightToLeft = (text: string): boolean => {
+  const first = Array.from(text).find(c => STRONG_CHAR.test(c));
+  return first !== undefined && RTL_CHAR.test(first);
+};
+
+// Matches a language name reported by an engine, e.g. "arabic" or "Chinese (Simplified)"
+export const parseLanguageName = (name: unknown): OCRLanguage | undefined => {
+  if (typeof name !== 'string') return undefined;
+  const wanted = name.trim().toLowerCase();
+  return Object.values(OCRLanguage).find(l => l !== OCRLanguage.Auto && l.toLowerCase() === wanted);
+};
+
+// Priority list for a region or batch: the main language first, then any mixed-in ones
+export const regionLanguages = ({ language, mixedLanguages = [] }: { language: OCRLanguage; mixedLanguages?: OCRLanguage[] }) =>
+  [language, ...mixedLanguages.filter(l => l !== language && l !== OCRLanguage.Auto)];
@@ -0,0 +1,140 @@
+import { createWorker, PSM, Worker } from "tesseract.js";
+import workerPath from "tesseract.js/dist/worker.min.js?url";
+import corePath from "tesseract.js-core/tesseract-core-lstm.wasm.js?url";
+import { SubtitleEntry, OCRLanguage, OCREngineType, CapturedFrame } from "../types";
+import type { OCREngine } from "./ocrEngine";
+import { createSubtitleId } from "./subtitleEditor";
+
+// Trained data is served from public/tesseract/lang so recognition never leaves the machine
+const LANG_PATH = '/tesseract/lang';
+
+const TESSERACT_LANGS: Record<Exclude<OCRLanguage, OCRLanguage.Auto>, string> = {
+  [OCRLanguage.English]: 'eng',
+  [OCRLanguage.Japanese]: 'jpn',
+  [OCRLanguage.Korean]: 'kor',
+  [OCRLanguage.ChineseSimplified]: 'chi_sim',
+  [OCRLanguage.ChineseTraditional]: 'chi_tra',
+  [OCRLanguage.Thai]: 'tha',
+  [OCRLanguage.Vietnamese]: 'vie',
+  [OCRLanguage.Indonesian]: 'ind',
+  [OCRLanguage.Hindi]: 'hin',
+  [OCRLanguage.Arabic]: 'ara',
+  [OCRLanguage.Hebrew]: 'heb',
+  [OCRLanguage.Persian]: 'fas',
+  [OCRLanguage.Turkish]: 'tur',
+  [OCRLanguage.Russian]: 'rus',
+  [OCRLanguage.Ukrainian]: 'ukr',
+  [OCRLanguage.Spanish]: 'spa',
+  [OCRLanguage.Portuguese]: 'por',
+  [OCRLanguage.French]: 'fra',
+  [OCRLanguage.German]: 'deu',
+  [OCRLanguage.Italian]: 'ita'
+};
+
+// Tesseract cannot identify languages, so Auto-detect only works alongside named ones,
+// which are then loaded together (e.g. "jpn+eng")
+const tesseractLangs = (languages: OCRLanguage[]): string => {
+  const named = languages.filter((l): l is Exclude<OCRLanguage, OCRLanguage.Auto> => l !== OCRLanguage.Auto);
+  if (named.length === 0) throw new Error("The offline engine cannot auto-detect languages. Choose the languages to expect.");
+  return [...new Set(named.map(l => TESSERACT_LANGS[l]))].join('+');
+};
+
+// Words below this confidence are treated as background noise rather than subtitle text
+const MIN_CONFIDENCE = 45;
+
+// Assumed sample spacing when a batch holds a single frame
+const DEFAULT_SAMPLE_STEP = 0.5;
+
+// A reading stays on screen until the next sample, which may be the first of the
+// next batch; the spacing between samples stands in for it at the end of a batch
+const sampleEnds = (frames: CapturedFrame[]): number[] => {
+  const last = (f: CapturedFrame) => f.endTimestamp ?? f.timestamp;
+  const gaps = frames.slice(1).map((f, i) => f.timestamp - last(frames[i])).filter(g => g > 0);
+  const step = gaps.length ? Math.min(...gaps) : DEFAULT_SAMPLE_STEP;
+  return frames.map((f, i) => frames[i + 1]?.timestamp ?? last(f) + step);
+};
+
+const normalize = (text: string) =>
+  text.split('\n').map(line => line.replace(/\s+/g, ' ').trim()).filter(Boolean).join('\n');
+
+export class LocalOCRService implements OCREngine {
+  readonly type = OCREngineType.Local;
+  readonly requiresNetwork = false;
+  // Shared by concurrent batches so only one worker is spun up per language set. Regions
+  // in different languages run side by side, so workers are kept rather than swapped:
+  // terminating one would leave its in-flight recognitions unsettled.
+  private workers = new Map<string, Promise<Worker>>();
+
+  private getWorker(langs: string): Promise<Worker> {
+    const cached = this.workers.get(langs);
+    if (cached) return cached;
+
+    const pending = (async () => {
+      const worker = await createWorker(langs, undefined, {
+        workerPath,
+        corePath,
+        langPath: LANG_PATH,
+        workerBlobURL: false,
+        cacheMethod: 'none'
+      });
+      await worker.setParameters({ tessedit_pageseg_mode: PSM.SINGLE_BLOCK });
+      return worker;
+    })();
+    // A failed start (e.g. missing language data) must not be cached
+    pending.catch(() => {
+      if (this.workers.get(langs) === pending) this.workers.delete(langs);
+    });
+    this.workers.set(langs, pending);
+    return pending;
+  }
+
+  estimateCost(): number {
+    return 0;
+  }
+
+  async processFrames(
+    frames: CapturedFrame[],
+    languages: OCRLanguage[]
+  ): Promise<SubtitleEntry[]> {
+    try {
+      const worker = await this.getWorker(tesseractLangs(languages));
+      // Only a single language can be attributed to a cue; mixed sets leave it open
+      const named = languages.filter(l => l !== OCRLanguage.Auto);
+      const language = named.length === 1 && languages.length === 1 ? named[0] : undefined;
+      const results: SubtitleEntry[] = [];
+      let previousText = '';
+      const ends = sampleEnds(frames);
+
+      for (const [i, frame] of frames.entries()) {
+        const { data } = await worker.recognize(frame.data);
+        const text = data.confidence >= MIN_CONFIDENCE ? normalize(data.text) : '';
+        const confidence = data.confidence / 100;
+
+        // Consecutive frames showing the same line collapse into a single cue, as sure as its best reading
+        const endTime = ends[i];
+        if (text && text === previousText) {
+          const last = results[results.length - 1];
+          last.endTime = endTime;
+          last.confidence = Math.max(last.confidence ?? 0, confidence);
+        } else if (text) {
+          results.push({
+            id: createSubtitleId(results.length),
+            text,
+            startTime: frame.timestamp,
+            endTime,
+            confidence,
+            ...(language && { language })
+          });
+        }
+        previousText = text;
+      }
+
+      return results;
+    } catch (error) {
+      console.error("Local OCR Error:", error);
+      throw error;
+    }
+  }
+}
+
+export const localOCRService = new LocalOCRService();
@@ -0,0 +1,17 @@
+import { ISOFile } from 'mp4box';
+
+// The edit list maps media time onto the presentation timeline: leading empty edits
+// delay the track, and the first real edit's media_time skips the start of the media
+// (the B-frame delay for video, encoder priming for AAC). Players apply it, so decoded
+// times must too. Returns seconds to add to a sample's CTS.
+export const editListOffset = (isoFile: ISOFile, trackId: number, movieTimescale: number, mediaTimescale: number) => {
+  let delay = 0;
+  for (const entry of isoFile.getTrackById(trackId).edts?.elst?.entries ?? []) {
+    if (entry.media_time === -1) {
+      delay += entry.segment_duration / movieTimescale;
+      continue;
+    }
+    return delay - entry.media_time / mediaTimescale;
+  }
+  return delay;
+};
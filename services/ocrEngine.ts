@@ -0,0 +1,39 @@
+import { CapturedFrame, OCREngineType, OCRLanguage, SubtitleEntry, TokenUsage } from "../types";
+
+export interface OCREngine {
+  readonly type: OCREngineType;
+  // Engines that never leave the machine report false here
+  readonly requiresNetwork: boolean;
+  // Languages in priority order; the first may be OCRLanguage.Auto
+  processFrames(frames: CapturedFrame[], languages: OCRLanguage[], options?: OCRRequestOptions): Promise<SubtitleEntry[]>;
+  // Estimated USD cost of the given usage; engines without metered usage return 0
+  estimateCost(usage: TokenUsage): number;
+}
+
+export interface TranslationRequest {
+  lines: string[];
+  // Neighbouring lines for context only; they are not translated
+  before: string[];
+  after: string[];
+  source: OCRLanguage;
+  target: OCRLanguage;
+}
+
+// Engines that can also translate finished cues
+export interface TranslationEngine {
+  readonly type: OCREngineType;
+  readonly requiresNetwork: boolean;
+  // Exactly one translation per line, in order
+  translateLines(request: TranslationRequest, options?: OCRRequestOptions): Promise<string[]>;
+  estimateCost(usage: TokenUsage): number;
+}
+
+export interface OCRRequestOptions {
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export const addUsage = (a: TokenUsage, b: TokenUsage): TokenUsage => ({
+  promptTokens: a.promptTokens + b.promptTokens,
+  outputTokens: a.outputTokens + b.outputTokens,
+  totalTokens: a.totalTokens + b.totalTokens
+});
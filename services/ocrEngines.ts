@@ -0,0 +1,15 @@
+import { OCREngineType } from "../types";
+import type { OCREngine, TranslationEngine } from "./ocrEngine";
+import { ocrService } from "./geminiService";
+import { localOCRService } from "./localOCRService";
+
+// Browser registry; the local engine needs Vite-served Tesseract assets
+const engines: Record<OCREngineType, OCREngine> = {
+  [OCREngineType.Gemini]: ocrService,
+  [OCREngineType.Local]: localOCRService
+};
+
+export const getOCREngine = (type: OCREngineType): OCREngine => engines[type];
+
+// Only Gemini translates; recognition can still run on either engine
+export const getTranslationEngine = (): TranslationEngine => ocrService;
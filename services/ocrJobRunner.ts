@@ -0,0 +1,229 @@
+import { CapturedFrame, DispatchSettings, OCRBatch, OCREngineType, OCRJob, OCRLanguage, SubtitleEntry, SubtitleRegion, TokenUsage } from "../types";
+import { OCREngine, addUsage } from "./ocrEngine";
+import { RequestScheduler } from "./requestScheduler";
+import { regionLanguages } from "./languages";
+
+const MAX_ATTEMPTS = 3;
+const MAX_RATE_LIMIT_RETRIES = 6;
+const BACKOFF_BASE_MS = 1000;
+const RATE_LIMIT_BACKOFF_BASE_MS = 5000;
+
+const EMPTY_USAGE: TokenUsage = { promptTokens: 0, outputTokens: 0, totalTokens: 0 };
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super("OCR job cancelled.");
+    this.name = 'JobCancelledError';
+  }
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const isRateLimitError = (error: unknown) => {
+  const status = (error as { status?: number })?.status;
+  const message = error instanceof Error ? error.message : String(error);
+  return status === 429 || /\b429\b|RESOURCE_EXHAUSTED|quota|rate limit/i.test(message);
+};
+
+export interface JobTrack {
+  regionId: string;
+  language: OCRLanguage;
+  mixedLanguages?: OCRLanguage[];
+  frames: CapturedFrame[];
+}
+
+export const createJob = (
+  projectId: string,
+  engineType: OCREngineType,
+  timeRange: { start: number; end: number },
+  tracks: JobTrack[],
+  batchSize: number,
+  overlap = 0
+): OCRJob => {
+  // Neighbouring windows share `overlap` frames so lines on a boundary are seen whole by one batch
+  const stride = Math.max(1, batchSize - overlap);
+  const frames: CapturedFrame[] = [];
+  const batches: OCRBatch[] = [];
+
+  tracks.forEach(track => {
+    const offset = frames.length;
+    frames.push(...track.frames);
+    for (let i = 0; i < track.frames.length; i += stride) {
+      batches.push({
+        index: batches.length,
+        regionId: track.regionId,
+        language: track.language,
+        ...(track.mixedLanguages?.length && { mixedLanguages: track.mixedLanguages }),
+        frameStart: offset + i,
+        frameEnd: offset + Math.min(i + batchSize, track.frames.length),
+        status: 'pending',
+        attempts: 0,
+        results: []
+      });
+      if (i + batchSize >= track.frames.length) break;
+    }
+  });
+
+  return {
+    id: `job-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`,
+    projectId,
+    createdAt: Date.now(),
+    engineType,
+    timeRange,
+    frames,
+    batches,
+    status: 'pending'
+  };
+};
+
+// Jobs checkpointed before regions existed have one job-wide language and no region
+// per batch; their frames were all cropped from what is now the first region.
+export const upgradeJob = (job: OCRJob, regions: SubtitleRegion[]): OCRJob => {
+  const legacy = job as OCRJob & { language?: OCRLanguage };
+  const region = regions[0];
+  if (!region || job.batches.every(b => b.regionId && b.language)) return job;
+  return {
+    ...job,
+    batches: job.batches.map(b => {
+      const regionId = b.regionId ?? region.id;
+      return {
+        ...b,
+        regionId,
+        language: b.language ?? legacy.language ?? region.language,
+        results: b.results.map(r => ({ ...r, regionId: r.regionId ?? regionId }))
+      };
+    })
+  };
+};
+
+export const jobRegionIds = (job: OCRJob) => [...new Set(job.batches.map(b => b.regionId))];
+
+export const collectJobResults = (job: OCRJob): SubtitleEntry[] =>
+  job.batches.flatMap(b => b.status === 'done' ? b.results : []);
+
+export const countCompletedBatches = (job: OCRJob) =>
+  job.batches.filter(b => b.status === 'done').length;
+
+export const sumJobUsage = (job: OCRJob): TokenUsage =>
+  job.batches.reduce((total, b) => b.usage ? addUsage(total, b.usage) : total, EMPTY_USAGE);
+
+export const estimateJobCost = (job: OCRJob, engine: OCREngine) =>
+  engine.estimateCost(sumJobUsage(job));
+
+export interface JobRunnerCallbacks {
+  onBatchSettled: (job: OCRJob, batch: OCRBatch) => void;
+  onRetry?: (batch: OCRBatch, attempt: number, error: unknown) => void;
+}
+
+// Where job progress is persisted between batches, keyed by project
+export interface JobCheckpoints {
+  save: (job: OCRJob) => Promise<unknown>;
+  remove: (projectId: string) => Promise<unknown>;
+}
+
+const NO_CHECKPOINTS: JobCheckpoints = {
+  save: async () => {},
+  remove: async () => {}
+};
+
+// Dispatches the pending batches of a job through a rate-limited scheduler (offline
+// engines are only capped in concurrency), checkpointing as each settles so it can be paused, retried or resumed later.
+export class OCRJobRunner {
+  private stopRequest: 'pause' | 'cancel' | null = null;
+
+  constructor(
+    private job: OCRJob,
+    private engine: OCREngine,
+    private dispatch: DispatchSettings,
+    private callbacks: JobRunnerCallbacks,
+    private checkpoints: JobCheckpoints = NO_CHECKPOINTS
+  ) {}
+
+  pause() {
+    this.stopRequest = 'pause';
+  }
+
+  cancel() {
+    this.stopRequest = 'cancel';
+  }
+
+  async run(): Promise<OCRJob> {
+    const engine = this.engine;
+    // The per-minute limit is an API quota; a local engine has none to respect
+    const scheduler = new RequestScheduler(engine.requiresNetwork ? this.dispatch : { ...this.dispatch, requestsPerMinute: 0 });
+    this.job.status = 'running';
+    // Failed batches get a fresh set of attempts on resume
+    this.job.batches.forEach(b => {
+      if (b.status === 'failed') {
+        b.status = 'pending';
+        b.attempts = 0;
+      }
+    });
+    await this.checkpoints.save(this.job);
+
+    await Promise.all(this.job.batches
+      .filter(b => b.status !== 'done')
+      .map(batch => scheduler.run(async () => {
+        if (this.stopRequest) return;
+        await this.runBatch(batch, engine, scheduler);
+        if (this.stopRequest === 'cancel') return;
+
+        await this.checkpoints.save(this.job);
+        this.callbacks.onBatchSettled(this.job, batch);
+      })));
+
+    if (this.stopRequest === 'cancel') {
+      this.job.status = 'cancelled';
+      await this.checkpoints.remove(this.job.projectId);
+      throw new JobCancelledError();
+    }
+
+    if (this.stopRequest === 'pause') {
+      this.job.status = 'paused';
+    } else if (this.job.batches.some(b => b.status !== 'done')) {
+      this.job.status = 'failed';
+    } else {
+      this.job.status = 'completed';
+    }
+
+    if (this.job.status === 'completed') await this.checkpoints.remove(this.job.projectId);
+    else await this.checkpoints.save(this.job);
+    return this.job;
+  }
+
+  private async runBatch(batch: OCRBatch, engine: OCREngine, scheduler: RequestScheduler) {
+    let rateLimitRetries = 0;
+
+    while (batch.attempts < MAX_ATTEMPTS) {
+      await scheduler.throttle();
+      if (this.stopRequest) return;
+      try {
+        const results = await engine.processFrames(
+          this.job.frames.slice(batch.frameStart, batch.frameEnd),
+          regionLanguages(batch),
+          { onUsage: usage => { batch.usage = addUsage(batch.usage ?? EMPTY_USAGE, usage); } }
+        );
+        batch.results = results.map(r => ({ ...r, regionId: batch.regionId }));
+        batch.status = 'done';
+        batch.error = undefined;
+        return;
+      } catch (error) {
+        batch.error = error instanceof Error ? error.message : String(error);
+
+        // Quota errors hold back every in-flight batch and don't use up normal attempts
+        if (isRateLimitError(error) && rateLimitRetries < MAX_RATE_LIMIT_RETRIES) {
+          scheduler.backoff(RATE_LIMIT_BACKOFF_BASE_MS * 2 ** rateLimitRetries);
+          rateLimitRetries++;
+          this.callbacks.onRetry?.(batch, batch.attempts + rateLimitRetries, error);
+          continue;
+        }
+
+        batch.attempts++;
+        if (batch.attempts >= MAX_ATTEMPTS || this.stopRequest) break;
+        this.callbacks.onRetry?.(batch, batch.attempts, error);
+        await delay(BACKOFF_BASE_MS * 2 ** (batch.attempts - 1));
+      }
+    }
+    batch.status = 'failed';
+  }
+}
@@ -0,0 +1,125 @@
+import { CapturedFrame, OCRJob, ScanSettings, StoredFrame, SubtitleEntry, SubtitleRegion, TextCleanupSettings } from "../types";
+import { SignedFrame, collapseUnchangedFrames } from "./frameDiff";
+import { scanSegments } from "./boundaryRefiner";
+import { collectJobResults, jobRegionIds } from "./ocrJobRunner";
+import { stitchCues } from "./cueMerger";
+import { replaceRange } from "./subtitleEditor";
+import { cueRegionId } from "./regions";
+import { cleanupCues } from "./textCleanup";
+
+// UI-independent extraction steps shared by the app and the command line
+
+export const BATCH_SIZE = 10;
+export const BATCH_OVERLAP = 2;
+// Source crops kept per cue: its first, middle and last sighting
+export const MAX_CUE_FRAMES = 3;
+
+// One seek yields a crop for every region, in a fixed order
+export type RegionCapture = (time: number) => Promise<SignedFrame[]>;
+
+export interface ScanResult {
+  frames: CapturedFrame[][]; // one list per region
+  skipped: number; // static samples folded into their neighbours
+}
+
+// Samples the time range every `sampleStep` seconds. With change detection on, unchanged
+// samples are collapsed, and with a refine frame rate each change is bisected instead.
+export const scanFrames = async (
+  capture: RegionCapture,
+  regionCount: number,
+  range: { start: number; end: number },
+  { sampleStep: step, diffThreshold, refineFrameRate }: ScanSettings,
+  onProgress: (fraction: number, message: string) => void
+): Promise<ScanResult> => {
+  if (diffThreshold > 0 && refineFrameRate > 0) {
+    const frames = await scanSegments(capture, {
+      start: range.start,
+      end: range.end,
+      step,
+      precision: 1 / refineFrameRate,
+      threshold: diffThreshold
+    }, onProgress);
+    return { frames, skipped: 0 };
+  }
+
+  const captured: SignedFrame[][] = Array.from({ length: regionCount }, () => []);
+  const totalSteps = Math.ceil((range.end - range.start) / step);
+  let current = range.start;
+  let count = 0;
+
+  while (current <= range.end) {
+    (await capture(current)).forEach((frame, r) => captured[r].push(frame));
+    current += step;
+    count++;
+    onProgress(Math.min(1, count / totalSteps), `Extracting frames (${Math.round(Math.min(1, count / totalSteps) * 100)}%)...`);
+  }
+
+  const frames = captured.map(list => diffThreshold > 0 ? collapseUnchangedFrames(list, diffThreshold) : list);
+  const skipped = captured.reduce((n, list, r) => n + list.length - frames[r].length, 0);
+  return { frames, skipped };
+};
+
+// Each region's frames in time order; overlapping batches share frames
+const framesByRegion = (job: OCRJob): Map<string, CapturedFrame[]> => {
+  const indices = new Map<string, Set<number>>();
+  job.batches.forEach(b => {
+    const set = indices.get(b.regionId) ?? new Set<number>();
+    for (let i = b.frameStart; i < b.frameEnd; i++) set.add(i);
+    indices.set(b.regionId, set);
+  });
+  return new Map([...indices].map(([regionId, set]) =>
+    [regionId, [...set].sort((a, b) => a - b).map(i => job.frames[i])]));
+};
+
+const pickEvenly = <T,>(items: T[], max: number): T[] =>
+  items.length <= max ? items : Array.from({ length: max }, (_, k) => items[Math.round(k * (items.length - 1) / (max - 1))]);
+
+// Points the job's cues at the crops they were read from: frames of the cue's region
+// whose visible span overlaps the cue. Returns the frames to store alongside.
+export const linkCueFrames = (
+  subs: SubtitleEntry[],
+  job: OCRJob,
+  regions: SubtitleRegion[]
+): { subtitles: SubtitleEntry[]; frames: StoredFrame[] } => {
+  const byRegion = framesByRegion(job);
+  const frames = new Map<string, StoredFrame>();
+  const subtitles = subs.map(sub => {
+    const regionId = cueRegionId(sub, regions);
+    const regionFrames = byRegion.get(regionId);
+    if (!regionFrames || sub.endTime <= job.timeRange.start || sub.startTime >= job.timeRange.end) return sub;
+
+    const sources = regionFrames.filter(f =>
+      f.data && (f.endTimestamp ?? f.timestamp) >= sub.startTime && f.timestamp <= sub.endTime);
+    if (sources.length === 0) return sub;
+
+    const frameIds = pickEvenly(sources, MAX_CUE_FRAMES).map(f => {
+      const id = `${job.projectId}:${regionId}:${f.timestamp.toFixed(3)}`;
+      frames.set(id, { id, projectId: job.projectId, data: f.data });
+      return id;
+    });
+    return { ...sub, frameIds };
+  });
+  return { subtitles, frames: [...frames.values()] };
+};
+
+// Swaps the job's stitched results into `base`. Only cues of the processed regions
+// inside the job's window are replaced.
+export const mergeJobResults = (
+  base: SubtitleEntry[],
+  job: OCRJob,
+  regions: SubtitleRegion[],
+  sampleStep: number,
+  cleanup?: TextCleanupSettings
+): SubtitleEntry[] => {
+  // Sightings of one line in neighbouring segments can be up to a sample apart
+  const stitchOptions = { maxGap: Math.max(0.3, sampleStep) };
+  const regionIds = jobRegionIds(job);
+  // Only freshly recognized cues are cleaned; the kept part of the track may hold edits
+  const stitched = stitchCues(collectJobResults(job), stitchOptions);
+  return replaceRange(
+    base,
+    cleanup ? cleanupCues(stitched, regions, cleanup) : stitched,
+    job.timeRange,
+    sub => regionIds.includes(cueRegionId(sub, regions))
+  );
+};
@@ -0,0 +1,185 @@
+import { CapturedFrame, OCRJob, Project, StoredFrame, VideoFingerprint } from "../types";
+
+const DB_NAME = 'visionocr';
+const DB_VERSION = 4;
+const PROJECT_STORE = 'projects';
+const JOB_STORE = 'jobs';
+const FRAME_STORE = 'frames';
+const JOB_FRAME_STORE = 'jobFrames';
+const HEAD_BYTES = 1024 * 1024;
+const PROJECT_FILE_VERSION = 1;
+
+const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PROJECT_STORE)) {
+        db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+      }
+      // One checkpointed OCR job per project
+      if (!db.objectStoreNames.contains(JOB_STORE)) {
+        db.createObjectStore(JOB_STORE, { keyPath: 'projectId' });
+      }
+      // A job's captured frames, written once rather than with every checkpoint
+      if (!db.objectStoreNames.contains(JOB_FRAME_STORE)) {
+        db.createObjectStore(JOB_FRAME_STORE, { keyPath: ['projectId', 'index'] });
+      }
+      // Source crops referenced by cues, many per project
+      if (!db.objectStoreNames.contains(FRAME_STORE)) {
+        db.createObjectStore(FRAME_STORE, { keyPath: 'id' }).createIndex('projectId', 'projectId');
+      }
+    };
+    dbPromise = requestToPromise(request);
+  }
+  return dbPromise;
+};
+
+const withStore = async <T,>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDB();
+  return requestToPromise(run(db.transaction(storeName, mode).objectStore(storeName)));
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const listProjects = async (): Promise<Project[]> => {
+  const projects = await withStore<Project[]>(PROJECT_STORE, 'readonly', store => store.getAll());
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveProject = (project: Project): Promise<IDBValidKey> =>
+  withStore(PROJECT_STORE, 'readwrite', store => store.put(project));
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await withStore(PROJECT_STORE, 'readwrite', store => store.delete(id));
+  await deleteJob(id);
+  await pruneFrames(id, new Set());
+};
+
+interface JobFrameRecord {
+  projectId: string;
+  index: number; // position in OCRJob.frames
+  frame: CapturedFrame;
+}
+
+// Like jobs, frames are kept per project; this range covers all of one project's
+const jobFrameRange = (projectId: string, from = 0) => IDBKeyRange.bound([projectId, from], [projectId, Infinity]);
+
+// Jobs whose frames are already stored, so their checkpoints only write batch progress
+const storedJobFrames = new Set<string>();
+
+export const getJob = async (projectId: string): Promise<OCRJob | null> => {
+  const tx = (await openDB()).transaction([JOB_STORE, JOB_FRAME_STORE], 'readonly');
+  const job = await requestToPromise<OCRJob | undefined>(tx.objectStore(JOB_STORE).get(projectId));
+  if (!job) return null;
+  // Jobs checkpointed before frames had their own store carry them inline
+  if (job.frames?.length) return job;
+  const records = await requestToPromise<JobFrameRecord[]>(tx.objectStore(JOB_FRAME_STORE).getAll(jobFrameRange(projectId)));
+  storedJobFrames.add(job.id);
+  return { ...job, frames: records.map(r => r.frame) };
+};
+
+export const saveJob = async (job: OCRJob): Promise<void> => {
+  const tx = (await openDB()).transaction([JOB_STORE, JOB_FRAME_STORE], 'readwrite');
+  tx.objectStore(JOB_STORE).put({ ...job, frames: [] });
+  const writesFrames = !storedJobFrames.has(job.id);
+  if (writesFrames) {
+    // Marked before the write lands, as batches settling together each checkpoint
+    storedJobFrames.add(job.id);
+    const frames = tx.objectStore(JOB_FRAME_STORE);
+    // Overwrites the project's previous job frames and drops any beyond this job's count
+    job.frames.forEach((frame, index) => frames.put({ projectId: job.projectId, index, frame } satisfies JobFrameRecord));
+    frames.delete(jobFrameRange(job.projectId, job.frames.length));
+  }
+  return transactionDone(tx).catch(err => {
+    if (writesFrames) storedJobFrames.delete(job.id);
+    throw err;
+  });
+};
+
+export const deleteJob = async (projectId: string): Promise<void> => {
+  const tx = (await openDB()).transaction([JOB_STORE, JOB_FRAME_STORE], 'readwrite');
+  tx.objectStore(JOB_STORE).delete(projectId);
+  tx.objectStore(JOB_FRAME_STORE).delete(jobFrameRange(projectId));
+  return transactionDone(tx);
+};
+
+export const saveFrames = async (frames: StoredFrame[]): Promise<void> => {
+  if (frames.length === 0) return;
+  const tx = (await openDB()).transaction(FRAME_STORE, 'readwrite');
+  const store = tx.objectStore(FRAME_STORE);
+  frames.forEach(frame => store.put(frame));
+  return transactionDone(tx);
+};
+
+// Data URLs in the order asked for; null where a frame was pruned or never stored
+export const getFrames = async (ids: string[]): Promise<(string | null)[]> => {
+  const tx = (await openDB()).transaction(FRAME_STORE, 'readonly');
+  const store = tx.objectStore(FRAME_STORE);
+  const frames = await Promise.all(ids.map(id => requestToPromise<StoredFrame | undefined>(store.get(id))));
+  return frames.map(frame => frame?.data ?? null);
+};
+
+// Drops a project's frames that no cue refers to any more
+export const pruneFrames = async (projectId: string, keep: Set<string>): Promise<void> => {
+  const tx = (await openDB()).transaction(FRAME_STORE, 'readwrite');
+  const request = tx.objectStore(FRAME_STORE).index('projectId').openCursor(IDBKeyRange.only(projectId));
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    if (!keep.has(cursor.primaryKey as string)) cursor.delete();
+    cursor.continue();
+  };
+  return transactionDone(tx);
+};
+
+const hashHead = async (file: File): Promise<string> => {
+  try {
+    const digest = await crypto.subtle.digest('SHA-256', await file.slice(0, HEAD_BYTES).arrayBuffer());
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+  } catch (err) {
+    // crypto.subtle only exists on secure origins, e.g. not when the dev server is opened by LAN IP
+    console.warn("Could not hash the video, matching projects by name and size only:", err);
+    return '';
+  }
+};
+
+// Identifies a video without storing it: metadata plus a hash of its first megabyte
+export const fingerprintVideo = async (file: File): Promise<VideoFingerprint> => ({
+  name: file.name,
+  size: file.size,
+  lastModified: file.lastModified,
+  headHash: await hashHead(file)
+});
+
+export const isSameVideo = (a: VideoFingerprint, b: VideoFingerprint) =>
+  a.size === b.size && (a.headHash && b.headHash ? a.headHash === b.headHash : a.name === b.name);
+
+export const serializeProject = (project: Project) =>
+  JSON.stringify({ version: PROJECT_FILE_VERSION, project }, null, 2);
+
+export const parseProjectFile = (content: string): Project => {
+  const data = JSON.parse(content);
+  const project = data?.project;
+  if (data?.version !== PROJECT_FILE_VERSION || !project?.id || !project?.video || !Array.isArray(project?.subtitles)) {
+    throw new Error("Not a VisionOCR project file.");
+  }
+  return project as Project;
+};
@@ -0,0 +1,141 @@
+import { SubtitleArea } from "../types";
+
+// Frames are analysed at this width; enough to resolve subtitle strokes, cheap to scan
+export const DETECT_WIDTH = 320;
+
+const GRID_COLS = 32;
+const GRID_ROWS = 48;
+// Luma step between neighbouring pixels that counts as a glyph edge
+const EDGE_CONTRAST = 60;
+// Share of edge pixels that makes a cell look like text
+const TEXT_DENSITY = 0.12;
+// Text must show up in this share of samples...
+const MIN_PRESENCE = 0.15;
+// ...and change between this share of them, which rules out logos and static UI
+const MIN_CHANGE_RATE = 0.1;
+const MAX_PROPOSALS = 3;
+
+export interface DetectionOptions {
+  start: number;
+  end: number;
+  samples: number;
+}
+
+export interface DetectedArea {
+  area: SubtitleArea;
+  score: number;
+}
+
+type FrameGrab = (time: number) => Promise<ImageData | null>;
+
+// Per-cell share of high-contrast horizontal transitions, which glyph strokes produce in bulk
+const edgeDensities = ({ data, width, height }: ImageData): Float32Array => {
+  const densities = new Float32Array(GRID_COLS * GRID_ROWS);
+  const counts = new Uint32Array(GRID_COLS * GRID_ROWS);
+  const luma = (px: number) => data[px * 4] * 0.299 + data[px * 4 + 1] * 0.587 + data[px * 4 + 2] * 0.114;
+
+  for (let y = 0; y < height; y++) {
+    const row = Math.min(GRID_ROWS - 1, Math.floor((y / height) * GRID_ROWS));
+    for (let x = 0; x < width - 1; x++) {
+      const cell = row * GRID_COLS + Math.min(GRID_COLS - 1, Math.floor((x / width) * GRID_COLS));
+      const px = y * width + x;
+      if (Math.abs(luma(px) - luma(px + 1)) > EDGE_CONTRAST) densities[cell]++;
+      counts[cell]++;
+    }
+  }
+  for (let i = 0; i < densities.length; i++) {
+    densities[i] = counts[i] ? densities[i] / counts[i] : 0;
+  }
+  return densities;
+};
+
+// Groups text-like rows into horizontal bands, allowing a one-row gap between lines
+const findBands = (isRowActive: boolean[]): [number, number][] => {
+  const bands: [number, number][] = [];
+  let bandStart = -1;
+  let lastActive = -1;
+
+  isRowActive.forEach((active, row) => {
+    if (!active) return;
+    if (bandStart < 0 || row - lastActive > 2) {
+      if (bandStart >= 0) bands.push([bandStart, lastActive]);
+      bandStart = row;
+    }
+    lastActive = row;
+  });
+  if (bandStart >= 0) bands.push([bandStart, lastActive]);
+  return bands;
+};
+
+// Samples frames across the range and proposes rectangles where text keeps appearing
+// and changing, best candidate first.
+export const detectSubtitleAreas = async (
+  grab: FrameGrab,
+  { start, end, samples }: DetectionOptions,
+  onProgress: (fraction: number) => void
+): Promise<DetectedArea[]> => {
+  const presence = new Float32Array(GRID_COLS * GRID_ROWS);
+  const changes = new Float32Array(GRID_COLS * GRID_ROWS);
+  let previous: Float32Array | null = null;
+  let analysed = 0;
+
+  for (let i = 0; i < samples; i++) {
+    // Sample cell centres so the very first and last frames (often black) are skipped
+    const image = await grab(start + ((i + 0.5) / samples) * (end - start));
+    onProgress((i + 1) / samples);
+    if (!image) continue;
+
+    const densities = edgeDensities(image);
+    for (let c = 0; c < densities.length; c++) {
+      const isText = densities[c] > TEXT_DENSITY;
+      if (isText) presence[c]++;
+      if (previous && (isText !== (previous[c] > TEXT_DENSITY) || Math.abs(densities[c] - previous[c]) > TEXT_DENSITY / 2)) {
+        changes[c]++;
+      }
+    }
+    previous = densities;
+    analysed++;
+  }
+
+  if (analysed < 2) return [];
+
+  const candidate = (c: number) =>
+    presence[c] / analysed >= MIN_PRESENCE && changes[c] / (analysed - 1) >= MIN_CHANGE_RATE;
+
+  const isRowActive = Array.from({ length: GRID_ROWS }, (_, row) => {
+    let count = 0;
+    for (let col = 0; col < GRID_COLS; col++) {
+      if (candidate(row * GRID_COLS + col)) count++;
+    }
+    return count >= 2;
+  });
+
+  const proposals: DetectedArea[] = [];
+  findBands(isRowActive).forEach(([top, bottom]) => {
+    let left = GRID_COLS;
+    let right = -1;
+    let score = 0;
+    for (let row = top; row <= bottom; row++) {
+      for (let col = 0; col < GRID_COLS; col++) {
+        const c = row * GRID_COLS + col;
+        if (!candidate(c)) continue;
+        left = Math.min(left, col);
+        right = Math.max(right, col);
+        score += presence[c] / analysed;
+      }
+    }
+    if (right - left < 2) return;
+
+    // Pad by a cell on every side so descenders and wider lines still fit
+    const x = Math.max(0, left - 1) / GRID_COLS * 100;
+    const y = Math.max(0, top - 1) / GRID_ROWS * 100;
+    const width = Math.max(5, Math.min(GRID_COLS, right + 2) / GRID_COLS * 100 - x);
+    const height = Math.max(5, Math.min(GRID_ROWS, bottom + 2) / GRID_ROWS * 100 - y);
+    proposals.push({
+      area: { x, y, width: Math.min(width, 100 - x), height: Math.min(height, 100 - y) },
+      score
+    });
+  });
+
+  return proposals.sort((a, b) => b.score - a.score).slice(0, MAX_PROPOSALS);
+};
@@ -0,0 +1,21 @@
+import { OCRLanguage, SubtitleArea, SubtitleEntry, SubtitleRegion } from "../types";
+
+export const DEFAULT_AREA: SubtitleArea = { x: 10, y: 75, width: 80, height: 18 };
+
+export const createRegion = (
+  name: string,
+  area: SubtitleArea = DEFAULT_AREA,
+  language: OCRLanguage = OCRLanguage.English
+): SubtitleRegion => ({
+  id: `region-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`,
+  name,
+  area,
+  language
+});
+
+// Cues without a regionId (imported or from older projects) belong to the first region
+export const cueRegionId = (sub: SubtitleEntry, regions: SubtitleRegion[]) =>
+  sub.regionId ?? regions[0]?.id;
+
+export const filterTrack = (subs: SubtitleEntry[], regionId: string, regions: SubtitleRegion[]) =>
+  subs.filter(s => cueRegionId(s, regions) === regionId);
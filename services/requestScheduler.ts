@@ -0,0 +1,53 @@
+import { DispatchSettings } from "../types";
+
+const WINDOW_MS = 60_000;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Caps how many tasks run at once and how many requests start per minute.
+// A quota error from any task can hold back every request via backoff().
+export class RequestScheduler {
+  private active = 0;
+  private waiting: (() => void)[] = [];
+  private starts: number[] = [];
+  private blockedUntil = 0;
+
+  constructor(private settings: DispatchSettings) {}
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active >= Math.max(1, this.settings.concurrency)) {
+      // The finishing task hands its slot over, so `active` already counts this one
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    } else {
+      this.active++;
+    }
+    try {
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) next();
+      else this.active--;
+    }
+  }
+
+  // Resolves once a request may be sent under the per-minute limit
+  async throttle(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      if (this.blockedUntil > now) {
+        await delay(this.blockedUntil - now);
+        continue;
+      }
+      this.starts = this.starts.filter(t => now - t < WINDOW_MS);
+      if (this.settings.requestsPerMinute <= 0 || this.starts.length < this.settings.requestsPerMinute) {
+        this.starts.push(now);
+        return;
+      }
+      await delay(this.starts[0] + WINDOW_MS - now);
+    }
+  }
+
+  backoff(ms: number) {
+    this.blockedUntil = Math.max(this.blockedUntil, Date.now() + ms);
+  }
+}
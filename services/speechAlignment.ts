@@ -0,0 +1,118 @@
+import { SubtitleEntry, SubtitleRegion } from "../types";
+import { AudioTrack } from "./audioTrack";
+import { cueRegionId } from "./regions";
+
+export interface SpeechSegment {
+  start: number;
+  end: number;
+}
+
+export interface TimingAdjustment {
+  id: string;
+  text: string;
+  from: { startTime: number; endTime: number };
+  to: { startTime: number; endTime: number };
+}
+
+const FRAME_SECONDS = 0.02;
+// Speech is counted where a frame is this far above the noise floor
+const SPEECH_MARGIN_DB = 12;
+const SILENCE_DB = -60;
+const NOISE_PERCENTILE = 0.1;
+// Pauses shorter than this are breaths within one utterance
+const MIN_GAP = 0.25;
+const MIN_SPEECH = 0.15;
+const PRE_EMPHASIS = 0.97;
+const MIN_ALIGNED_DURATION = 0.3;
+// Changes smaller than this are sampling noise, not worth a diff row
+const MIN_SHIFT = 0.02;
+
+// Energy-based voice activity detection. Pre-emphasis tilts the signal towards
+// speech frequencies so hum and rumble don't hold the floor up, and the threshold
+// follows the track's own noise floor rather than a fixed level.
+export const detectSpeech = ({ samples, sampleRate }: AudioTrack): SpeechSegment[] => {
+  const frameSize = Math.round(sampleRate * FRAME_SECONDS);
+  const frameCount = Math.floor(samples.length / frameSize);
+  if (frameCount === 0) return [];
+
+  const energies = new Float32Array(frameCount);
+  for (let f = 0; f < frameCount; f++) {
+    let sum = 0;
+    for (let i = f * frameSize; i < (f + 1) * frameSize; i++) {
+      const x = samples[i] - PRE_EMPHASIS * (i > 0 ? samples[i - 1] : 0);
+      sum += x * x;
+    }
+    energies[f] = 10 * Math.log10(sum / frameSize + 1e-10);
+  }
+
+  const floor = Float32Array.from(energies).sort()[Math.floor(frameCount * NOISE_PERCENTILE)];
+  const threshold = Math.max(SILENCE_DB, floor + SPEECH_MARGIN_DB);
+
+  const segments: SpeechSegment[] = [];
+  for (let f = 0; f < frameCount; f++) {
+    if (energies[f] < threshold) continue;
+    const start = f * FRAME_SECONDS;
+    const end = (f + 1) * FRAME_SECONDS;
+    const last = segments[segments.length - 1];
+    if (last && start - last.end < MIN_GAP) last.end = end;
+    else segments.push({ start, end });
+  }
+  return segments.filter(s => s.end - s.start >= MIN_SPEECH);
+};
+
+const nearest = (points: number[], t: number, tolerance: number) => {
+  let best: number | undefined;
+  for (const p of points) {
+    if (Math.abs(p - t) <= tolerance && (best === undefined || Math.abs(p - t) < Math.abs(best - t))) best = p;
+  }
+  return best;
+};
+
+// Snaps each cue's start to the nearest speech onset and its end to the nearest
+// speech offset within the tolerance. Edges with no boundary nearby stay put, and a
+// cue never moves onto the one before it in the same zone.
+export const alignCues = (
+  cues: SubtitleEntry[],
+  speech: SpeechSegment[],
+  regions: SubtitleRegion[],
+  tolerance: number
+): TimingAdjustment[] => {
+  const onsets = speech.map(s => s.start);
+  const offsets = speech.map(s => s.end);
+  const adjustments: TimingAdjustment[] = [];
+
+  for (const region of regions) {
+    const track = cues
+      .filter(s => cueRegionId(s, regions) === region.id)
+      .sort((a, b) => a.startTime - b.startTime);
+    let previousEnd = 0;
+    for (const cue of track) {
+      let startTime = nearest(onsets, cue.startTime, tolerance) ?? cue.startTime;
+      let endTime = nearest(offsets, cue.endTime, tolerance) ?? cue.endTime;
+      if (cue.startTime >= previousEnd) startTime = Math.max(startTime, previousEnd);
+      if (endTime - startTime < MIN_ALIGNED_DURATION) {
+        startTime = cue.startTime;
+        endTime = cue.endTime;
+      }
+      previousEnd = endTime;
+      if (Math.abs(startTime - cue.startTime) < MIN_SHIFT && Math.abs(endTime - cue.endTime) < MIN_SHIFT) continue;
+      adjustments.push({
+        id: cue.id,
+        text: cue.text,
+        from: { startTime: cue.startTime, endTime: cue.endTime },
+        to: { startTime, endTime }
+      });
+    }
+  }
+  return adjustments.sort((a, b) => a.from.startTime - b.from.startTime);
+};
+
+export const applyTimingAdjustments = (cues: SubtitleEntry[], adjustments: TimingAdjustment[]): SubtitleEntry[] => {
+  const byId = new Map(adjustments.map(a => [a.id, a.to]));
+  return cues
+    .map(s => {
+      const to = byId.get(s.id);
+      return to ? { ...s, ...to } : s;
+    })
+    .sort((a, b) => a.startTime - b.startTime);
+};
@@ -0,0 +1,124 @@
+import { SubtitleEntry, SubtitleRegion } from "../types";
+import { cueRegionId } from "./regions";
+
+const MIN_DURATION = 0.1;
+const DEFAULT_DURATION = 2;
+
+export const createSubtitleId = (index = 0) =>
+  `sub-${Date.now()}-${index}-${Math.random().toString(36).substring(2, 7)}`;
+
+const sortByStart = (subs: SubtitleEntry[]) => [...subs].sort((a, b) => a.startTime - b.startTime);
+
+export const updateCue = (
+  subs: SubtitleEntry[],
+  id: string,
+  patch: Partial<Omit<SubtitleEntry, 'id'>>
+): SubtitleEntry[] =>
+  sortByStart(subs.map(s => {
+    if (s.id !== id) return s;
+    const next = { ...s, ...patch };
+    next.startTime = Math.max(0, next.startTime);
+    // Keep the cue valid whichever edge was moved
+    if (next.endTime < next.startTime + MIN_DURATION) {
+      if (patch.startTime !== undefined && patch.endTime === undefined) next.endTime = next.startTime + MIN_DURATION;
+      else next.startTime = Math.max(0, next.endTime - MIN_DURATION);
+    }
+    return next;
+  }));
+
+const splitText = (text: string, ratio: number): [string, string] => {
+  const lines = text.split('\n');
+  if (lines.length > 1) {
+    const cut = Math.min(lines.length - 1, Math.max(1, Math.round(lines.length * ratio)));
+    return [lines.slice(0, cut).join('\n'), lines.slice(cut).join('\n')];
+  }
+  const words = text.split(' ');
+  if (words.length > 1) {
+    const cut = Math.min(words.length - 1, Math.max(1, Math.round(words.length * ratio)));
+    return [words.slice(0, cut).join(' '), words.slice(cut).join(' ')];
+  }
+  // A single word can't be divided, so it stays with the first half
+  return [text, ''];
+};
+
+// Both halves must keep the minimum duration
+export const canSplitAt = (cue: SubtitleEntry, time: number) =>
+  time > cue.startTime + MIN_DURATION && time < cue.endTime - MIN_DURATION;
+
+export const splitCue = (subs: SubtitleEntry[], id: string, time: number): SubtitleEntry[] => {
+  const index = subs.findIndex(s => s.id === id);
+  const cue = subs[index];
+  if (!cue || !canSplitAt(cue, time)) return subs;
+
+  const ratio = (time - cue.startTime) / (cue.endTime - cue.startTime);
+  const [head, tail] = splitText(cue.text, ratio);
+  // The translation is divided at the same point so neither half repeats all of it
+  const [headTranslation, tailTranslation] = cue.translation ? splitText(cue.translation, ratio) : [];
+  return [
+    ...subs.slice(0, index),
+    { ...cue, text: head, translation: headTranslation || undefined, endTime: time },
+    { ...cue, id: createSubtitleId(index + 1), text: tail, translation: tailTranslation || undefined, startTime: time },
+    ...subs.slice(index + 1)
+  ];
+};
+
+// Merges with the following cue of the same track
+export const findNextInTrack = (subs: SubtitleEntry[], id: string, regions: SubtitleRegion[]): SubtitleEntry | undefined => {
+  const index = subs.findIndex(s => s.id === id);
+  const cue = subs[index];
+  return cue && subs.slice(index + 1).find(s => cueRegionId(s, regions) === cueRegionId(cue, regions));
+};
+
+export const mergeWithNext = (subs: SubtitleEntry[], id: string, regions: SubtitleRegion[]): SubtitleEntry[] => {
+  const cue = subs.find(s => s.id === id);
+  const next = findNextInTrack(subs, id, regions);
+  if (!cue || !next) return subs;
+
+  return subs
+    .filter(s => s.id !== next.id)
+    .map(s => s.id === id ? {
+      ...cue,
+      text: `${cue.text}\n${next.text}`,
+      translation: [cue.translation, next.translation].filter(Boolean).join('\n') || undefined,
+      endTime: Math.max(cue.endTime, next.endTime),
+      frameIds: cue.frameIds || next.frameIds ? [...(cue.frameIds ?? []), ...(next.frameIds ?? [])] : undefined
+    } : s);
+};
+
+export const deleteCue = (subs: SubtitleEntry[], id: string): SubtitleEntry[] =>
+  subs.filter(s => s.id !== id);
+
+export const insertCue = (
+  subs: SubtitleEntry[],
+  time: number,
+  regions: SubtitleRegion[],
+  regionId?: string
+): { subs: SubtitleEntry[]; id: string } => {
+  const trackId = regionId ?? regions[0]?.id;
+  const next = subs.find(s => s.startTime > time && cueRegionId(s, regions) === trackId);
+  const endTime = next ? Math.max(time + MIN_DURATION, Math.min(next.startTime, time + DEFAULT_DURATION)) : time + DEFAULT_DURATION;
+  const cue: SubtitleEntry = { id: createSubtitleId(subs.length), text: '', startTime: time, endTime, regionId };
+  return { subs: sortByStart([...subs, cue]), id: cue.id };
+};
+
+// Swaps in fresh cues for a time window, keeping (and trimming) whatever lies outside it
+export const replaceRange = (
+  subs: SubtitleEntry[],
+  incoming: SubtitleEntry[],
+  range: { start: number; end: number },
+  inScope: (sub: SubtitleEntry) => boolean = () => true
+): SubtitleEntry[] => {
+  const kept: SubtitleEntry[] = [];
+  subs.forEach(s => {
+    if (!inScope(s) || s.endTime <= range.start || s.startTime >= range.end) {
+      kept.push(s);
+      return;
+    }
+    // A cue spanning the whole window keeps both its head and its tail
+    if (s.startTime < range.start) kept.push({ ...s, endTime: range.start });
+    if (s.endTime > range.end) {
+      kept.push({ ...s, id: s.startTime < range.start ? createSubtitleId(kept.length) : s.id, startTime: range.end });
+    }
+  });
+  return sortByStart([...kept, ...incoming]);
+};
@@ -0,0 +1,263 @@
+import { SubtitleEntry, SubtitleRegion } from "../types";
+import { cueRegionId } from "./regions";
+
+export interface LintProfile {
+  id: string;
+  name: string;
+  maxCps: number; // characters per second, line breaks excluded
+  maxLineLength: number;
+  maxLines: number;
+  minDuration: number;
+  maxDuration: number;
+  minGap: number; // between consecutive cues of one track
+}
+
+export const LINT_PROFILES: LintProfile[] = [
+  { id: 'netflix', name: 'Netflix', maxCps: 17, maxLineLength: 42, maxLines: 2, minDuration: 5 / 6, maxDuration: 7, minGap: 2 / 24 },
+  { id: 'netflix-cjk', name: 'Netflix CJK', maxCps: 9, maxLineLength: 16, maxLines: 2, minDuration: 5 / 6, maxDuration: 7, minGap: 2 / 24 },
+  { id: 'bbc', name: 'BBC', maxCps: 15, maxLineLength: 37, maxLines: 2, minDuration: 1, maxDuration: 8, minGap: 0.04 },
+  { id: 'relaxed', name: 'Relaxed', maxCps: 25, maxLineLength: 50, maxLines: 3, minDuration: 0.5, maxDuration: 10, minGap: 0 }
+];
+
+export const CUSTOM_PROFILE_ID = 'custom';
+
+// A preset with some limits changed becomes the custom profile
+export const customizeProfile = (profile: LintProfile, patch: Partial<Omit<LintProfile, 'id' | 'name'>>): LintProfile =>
+  ({ ...profile, ...patch, id: CUSTOM_PROFILE_ID, name: 'Custom' });
+
+export type LintRule =
+  | 'empty'
+  | 'invalid-duration'
+  | 'overlap'
+  | 'gap'
+  | 'too-short'
+  | 'too-long'
+  | 'cps'
+  | 'line-length'
+  | 'line-count'
+  | 'duplicate';
+
+export interface LintIssue {
+  cueId: string;
+  rule: LintRule;
+  severity: 'error' | 'warning';
+  message: string;
+  fixable: boolean;
+}
+
+// Rules whose fix can be applied without a person choosing how; a cue that is
+// simply too long needs splitting at a sensible point, so it is only reported
+const FIXABLE: Record<LintRule, boolean> = {
+  'empty': true,
+  'invalid-duration': true,
+  'overlap': true,
+  'gap': true,
+  'too-short': true,
+  'too-long': false,
+  'cps': true,
+  'line-length': true,
+  'line-count': true,
+  'duplicate': true
+};
+
+const SEVERITY: Record<LintRule, LintIssue['severity']> = {
+  'empty': 'error',
+  'invalid-duration': 'error',
+  'overlap': 'error',
+  'gap': 'warning',
+  'too-short': 'warning',
+  'too-long': 'warning',
+  'cps': 'warning',
+  'line-length': 'warning',
+  'line-count': 'warning',
+  'duplicate': 'warning'
+};
+
+const MIN_DURATION = 0.1;
+// Repeats further apart than this are the same line said twice, not one cue read twice
+const DUPLICATE_GAP = 1;
+
+const charCount = (text: string) => Array.from(text.replace(/\n/g, '')).length;
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// Cues grouped by zone and sorted, since overlaps and gaps only matter within one track
+const tracksOf = (subs: SubtitleEntry[], regions: SubtitleRegion[]) => {
+  const tracks = new Map<string, SubtitleEntry[]>();
+  subs.forEach(s => {
+    const id = cueRegionId(s, regions);
+    tracks.set(id, [...(tracks.get(id) ?? []), s]);
+  });
+  return [...tracks.values()].map(track => track.sort((a, b) => a.startTime - b.startTime));
+};
+
+export const lintSubtitles = (subs: SubtitleEntry[], regions: SubtitleRegion[], profile: LintProfile): LintIssue[] => {
+  const issues: LintIssue[] = [];
+  const report = (cue: SubtitleEntry, rule: LintRule, message: string) =>
+    issues.push({ cueId: cue.id, rule, severity: SEVERITY[rule], message, fixable: FIXABLE[rule] });
+
+  for (const track of tracksOf(subs, regions)) {
+    track.forEach((cue, i) => {
+      const duration = cue.endTime - cue.startTime;
+      const next = track[i + 1];
+
+      if (!cue.text.trim()) {
+        report(cue, 'empty', 'Cue has no text.');
+        return;
+      }
+      if (duration <= 0) {
+        report(cue, 'invalid-duration', `Ends ${duration === 0 ? 'as it starts' : 'before it starts'}.`);
+      } else if (duration < profile.minDuration) {
+        report(cue, 'too-short', `Shown for ${duration.toFixed(2)}s, under the ${profile.minDuration.toFixed(2)}s minimum.`);
+      } else if (duration > profile.maxDuration) {
+        report(cue, 'too-long', `Shown for ${duration.toFixed(1)}s, over the ${profile.maxDuration}s maximum.`);
+      }
+      if (duration > 0) {
+        const cps = charCount(cue.text) / duration;
+        if (cps > profile.maxCps) report(cue, 'cps', `${cps.toFixed(1)} characters per second, over ${profile.maxCps}.`);
+      }
+
+      const lines = cue.text.split('\n');
+      const longest = Math.max(...lines.map(l => Array.from(l).length));
+      if (longest > profile.maxLineLength) report(cue, 'line-length', `A line has ${longest} characters, over ${profile.maxLineLength}.`);
+      if (lines.length > profile.maxLines) report(cue, 'line-count', `${lines.length} lines, over ${profile.maxLines}.`);
+
+      if (next) {
+        if (next.startTime < cue.endTime) {
+          report(cue, 'overlap', `Overlaps the next cue by ${(cue.endTime - next.startTime).toFixed(2)}s.`);
+        } else if (next.startTime - cue.endTime < profile.minGap) {
+          report(cue, 'gap', `Only ${(next.startTime - cue.endTime).toFixed(3)}s before the next cue.`);
+        }
+        if (next.startTime - cue.endTime < DUPLICATE_GAP && normalize(next.text) === normalize(cue.text)) report(cue, 'duplicate', 'Same text as the next cue.');
+      }
+    });
+  }
+  return issues;
+};
+
+const lineLength = (line: string) => Array.from(line).length;
+
+// Lines opening with a dash each belong to a different speaker
+const DIALOGUE_LINE = /^[-–—]/;
+const UNSPACED_END = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\u3001-\u303F\uFF01-\uFF60]$/u;
+
+// Breaks one line into `lineCount` lines of about the same length. Text without
+// spaces (Chinese, Japanese) is broken between characters.
+const breakLine = (text: string, lineCount: number): string[] => {
+  const spaced = /\s/.test(text);
+  const units = spaced ? text.split(' ') : Array.from(text);
+  const joiner = spaced ? ' ' : '';
+  const total = lineLength(text);
+  if (lineCount <= 1 || units.length < 2) return [text];
+
+  // Greedy fill towards an even target, so the lines come out about the same length
+  const target = total / lineCount;
+  const lines: string[][] = [[]];
+  units.forEach(unit => {
+    const line = lines[lines.length - 1];
+    const candidate = lineLength([...line, unit].join(joiner));
+    if (line.length > 0 && lines.length < lineCount && candidate > target + lineLength(unit) / 2) lines.push([unit]);
+    else line.push(unit);
+  });
+  return lines.map(l => l.join(joiner));
+};
+
+// Keeps the cue's own line breaks and re-breaks only the lines that are too long. Lines
+// continuing a sentence are rejoined first when there are more than `maxLines`, but a
+// dialogue line always starts a line of its own.
+export const wrapText = (text: string, maxLineLength: number, maxLines: number): string => {
+  const lines = text.split('\n').map(normalize).filter(Boolean);
+  const paragraphs = lines.length <= maxLines ? lines : lines.reduce<string[]>((joined, line) => {
+    const previous = joined[joined.length - 1];
+    // Chinese and Japanese run on without a space
+    if (previous !== undefined && !DIALOGUE_LINE.test(line)) joined[joined.length - 1] += (UNSPACED_END.test(previous) ? '' : ' ') + line;
+    else joined.push(line);
+    return joined;
+  }, []);
+
+  // Lines left under the limit go to the long paragraphs, in order
+  let spare = Math.max(0, maxLines - paragraphs.length);
+  return paragraphs.flatMap(paragraph => {
+    const needed = Math.ceil(lineLength(paragraph) / maxLineLength);
+    const lineCount = Math.min(needed, 1 + spare);
+    spare -= lineCount - 1;
+    return breakLine(paragraph, lineCount);
+  }).join('\n');
+};
+
+const replaceCue = (subs: SubtitleEntry[], id: string, patch: Partial<SubtitleEntry>) =>
+  subs.map(s => s.id === id ? { ...s, ...patch } : s);
+
+const nextInTrack = (subs: SubtitleEntry[], cue: SubtitleEntry, regions: SubtitleRegion[]) => {
+  const track = tracksOf(subs, regions).find(t => t.some(s => s.id === cue.id)) ?? [];
+  return track[track.findIndex(s => s.id === cue.id) + 1] as SubtitleEntry | undefined;
+};
+
+// Fixes one issue against the current cues. Issues whose cue has since changed or gone
+// are fixed against what is there now, or left alone.
+export const fixIssue = (
+  subs: SubtitleEntry[],
+  issue: LintIssue,
+  regions: SubtitleRegion[],
+  profile: LintProfile
+): SubtitleEntry[] => {
+  const cue = subs.find(s => s.id === issue.cueId);
+  if (!cue || !issue.fixable) return subs;
+  const next = nextInTrack(subs, cue, regions);
+  // Latest end that keeps the minimum gap to the next cue
+  const limit = next ? next.startTime - profile.minGap : Infinity;
+
+  switch (issue.rule) {
+    case 'empty':
+      return subs.filter(s => s.id !== cue.id);
+    case 'invalid-duration':
+    case 'too-short': {
+      const wanted = cue.startTime + profile.minDuration;
+      return replaceCue(subs, cue.id, { endTime: Math.max(Math.min(wanted, limit), cue.startTime + MIN_DURATION) });
+    }
+    case 'cps': {
+      const wanted = cue.startTime + Math.min(profile.maxDuration, charCount(cue.text) / profile.maxCps);
+      const endTime = Math.min(wanted, limit);
+      return endTime > cue.endTime ? replaceCue(subs, cue.id, { endTime }) : subs;
+    }
+    case 'overlap':
+    case 'gap': {
+      if (!next) return subs;
+      // Trim this cue's tail; if that would leave too little of it, push the next one back instead
+      if (limit - cue.startTime >= MIN_DURATION) return replaceCue(subs, cue.id, { endTime: limit });
+      const startTime = cue.endTime + profile.minGap;
+      return replaceCue(subs, next.id, { startTime, endTime: Math.max(next.endTime, startTime + MIN_DURATION) });
+    }
+    case 'line-length':
+    case 'line-count':
+      return replaceCue(subs, cue.id, { text: wrapText(cue.text, profile.maxLineLength, profile.maxLines) });
+    case 'duplicate': {
+      if (!next) return subs;
+      return subs
+        .filter(s => s.id !== next.id)
+        .map(s => s.id === cue.id ? {
+          ...cue,
+          endTime: Math.max(cue.endTime, next.endTime),
+          // The text is the same, but the two reads may have been translated differently
+          translation: [...new Set([cue.translation, next.translation].filter(Boolean))].join('\n') || undefined,
+          frameIds: cue.frameIds || next.frameIds ? [...(cue.frameIds ?? []), ...(next.frameIds ?? [])] : undefined
+        } : s);
+    }
+    default:
+      return subs;
+  }
+};
+
+// Structural problems are fixed first, as merging duplicates and removing empty cues
+// changes which cues neighbour each other for the timing fixes
+const FIX_ORDER: LintRule[] = ['empty', 'duplicate', 'invalid-duration', 'line-length', 'line-count', 'overlap', 'gap', 'too-short', 'cps'];
+
+export const fixAll = (subs: SubtitleEntry[], regions: SubtitleRegion[], profile: LintProfile): SubtitleEntry[] => {
+  let fixed = subs;
+  for (const rule of FIX_ORDER) {
+    lintSubtitles(fixed, regions, profile)
+      .filter(issue => issue.rule === rule)
+      .forEach(issue => { fixed = fixIssue(fixed, issue, regions, profile); });
+  }
+  return [...fixed].sort((a, b) => a.startTime - b.startTime);
+};
@@ -0,0 +1,192 @@
+import { OCRLanguage, ReplaceRule, SubtitleEntry, SubtitleRegion, TextCleanupSettings } from "../types";
+import { cueRegionId } from "./regions";
+import { regionLanguages } from "./languages";
+
+const CLEANUP_FILE_VERSION = 1;
+
+// Nothing is rewritten until a preset, rule or list is opted into
+export const DEFAULT_CLEANUP: TextCleanupSettings = {
+  normalize: false,
+  rules: [],
+  glossary: [],
+  blacklist: []
+};
+
+interface NormalizationPreset {
+  id: string;
+  name: string;
+  languages: OCRLanguage[];
+  replacements: [RegExp, string | ((match: string) => string)][];
+}
+
+// Ideographs and kana with CJK punctuation and full-width forms
+const KANA_HAN = '\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\u3001-\\u303F\\uFF01-\\uFF60';
+
+const toHalfWidth = (match: string) =>
+  Array.from(match, c => String.fromCharCode(c.charCodeAt(0) - 0xFEE0)).join('');
+
+const FULL_WIDTH_PUNCTUATION: Record<string, string> = { ',': '，', '!': '！', '?': '？', ':': '：', ';': '；', '(': '（', ')': '）' };
+
+export const NORMALIZATION_PRESETS: NormalizationPreset[] = [
+  {
+    id: 'cjk',
+    name: 'CJK width and spacing',
+    languages: [OCRLanguage.Japanese, OCRLanguage.ChineseSimplified, OCRLanguage.ChineseTraditional, OCRLanguage.Korean],
+    replacements: [
+      // Full-width letters and digits read off the frame become ordinary ASCII
+      [/[Ａ-Ｚａ-ｚ０-９]+/g, toHalfWidth],
+      [/　/g, ' '],
+      // OCR often puts spaces between ideographs; Korean uses real word spaces, so Hangul is left alone
+      [new RegExp(`(?<=[${KANA_HAN}]) +(?=[${KANA_HAN}])`, 'gu'), ''],
+      // Korean takes ASCII punctuation, so only kana and Han text gets the full-width forms
+      [new RegExp(`(?<=[${KANA_HAN}])[,!?:;()](?![\\x21-\\x7E])`, 'gu'), (c: string) => FULL_WIDTH_PUNCTUATION[c]],
+      [/\.{3}|…{2,}/g, '…']
+    ]
+  },
+  {
+    id: 'english',
+    name: 'English l/I confusion',
+    languages: [OCRLanguage.English],
+    replacements: [
+      // A lone lowercase l, or one starting a contraction, is a capital I
+      [/\bl\b/g, 'I'],
+      // A capital I inside an otherwise lowercase word is an l ("heIlo", "wiII"); words
+      // with other capitals ("McIntyre") are real names
+      [/\b[a-z][a-zI]*I[a-zI]*\b/g, (word: string) => word.replace(/(?<=[a-z])I+(?=[a-z])|(?<=[a-z]{2})II$/g, match => 'l'.repeat(match.length))],
+      [/\b0(?=[a-zA-Z])|(?<=[a-zA-Z])0\b/g, 'O']
+    ]
+  },
+  {
+    id: 'latin-spacing',
+    name: 'Spacing and punctuation',
+    languages: [
+      OCRLanguage.English, OCRLanguage.Spanish, OCRLanguage.Portuguese, OCRLanguage.German, OCRLanguage.Italian,
+      OCRLanguage.Indonesian, OCRLanguage.Vietnamese, OCRLanguage.Turkish, OCRLanguage.Russian, OCRLanguage.Ukrainian
+    ],
+    replacements: [
+      [/ +([,.!?;:])/g, '$1'],
+      [/([,!?;:])(?=\p{L})/gu, '$1 '],
+      [/[“”„]/g, '"'],
+      [/[‘’]/g, "'"]
+    ]
+  },
+  {
+    id: 'french',
+    name: 'French punctuation spacing',
+    languages: [OCRLanguage.French],
+    replacements: [
+      // French typography puts a narrow no-break space before two-part punctuation, once
+      // per run ("Quoi ?!"), but not inside times or numbers ("12:30") or URLs
+      [/(?<=[^\s\d])[^\S\n]*[!?;:](?:[^\S\n]*[!?])*(?![\d/])/g, (match: string) => `\u202F${match.replace(/\s/g, '')}`],
+      [/ +([,.])/g, '$1']
+    ]
+  }
+];
+
+export const presetsFor = (languages: OCRLanguage[]) =>
+  NORMALIZATION_PRESETS.filter(p => p.languages.some(l => languages.includes(l)));
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// A regex rule that doesn't compile is skipped rather than failing the whole pass
+export const compileRule = (rule: ReplaceRule): RegExp | null => {
+  try {
+    return rule.isRegex
+      ? new RegExp(rule.find, 'gu')
+      : new RegExp(escapeRegExp(rule.find), 'g');
+  } catch {
+    return null;
+  }
+};
+
+// Edits needed to turn one word into the other, counting a swap of neighbouring letters as one
+const editDistance = (a: string, b: string) => {
+  const d = Array.from({ length: a.length + 1 }, (_, i) => Array.from({ length: b.length + 1 }, (_, j) => i === 0 ? j : j === 0 ? i : 0));
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+    }
+  }
+  return d[a.length][b.length];
+};
+
+// Words this long may be off by one character and still be taken for the term;
+// shorter names are too easily a different real word
+const FUZZY_MIN_LENGTH = 6;
+
+const enforceGlossary = (text: string, glossary: string[]) =>
+  glossary.reduce((result, term) => {
+    const spaced = /\s/.test(term) || !/^[\p{L}\p{N}'-]+$/u.test(term);
+    const exact = new RegExp(spaced ? escapeRegExp(term) : `(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`, 'giu');
+    let next = result.replace(exact, term);
+    if (!spaced && term.length >= FUZZY_MIN_LENGTH) {
+      const lower = term.toLowerCase();
+      next = next.replace(/[\p{L}\p{N}'-]+/gu, word =>
+        word !== term && word[0].toLowerCase() === lower[0] && Math.abs(word.length - term.length) <= 1 && editDistance(word.toLowerCase(), lower) === 1
+          ? term
+          : word);
+    }
+    return next;
+  }, text);
+
+const removeBlacklisted = (text: string, blacklist: string[]) => blacklist.length === 0 ? text :
+  blacklist
+    .reduce((result, entry) => result.replace(new RegExp(escapeRegExp(entry), 'giu'), ''), text)
+    .split('\n')
+    .map(line => line.replace(/\s{2,}/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+
+export const cleanText = (text: string, languages: OCRLanguage[], settings: TextCleanupSettings): string => {
+  let result = removeBlacklisted(text, settings.blacklist.map(e => e.trim()).filter(Boolean));
+  if (settings.normalize) {
+    presetsFor(languages).forEach(preset => preset.replacements.forEach(([pattern, replacement]) => {
+      result = result.replace(pattern, replacement as string);
+    }));
+  }
+  settings.rules.filter(r => r.enabled && r.find).forEach(rule => {
+    const pattern = compileRule(rule);
+    // Only regex rules expand $1 and $&; a literal rule inserts its text as typed
+    if (pattern) result = rule.isRegex ? result.replace(pattern, rule.replace) : result.replace(pattern, () => rule.replace);
+  });
+  return enforceGlossary(result, settings.glossary.map(t => t.trim()).filter(Boolean)).trim();
+};
+
+// Order: watermarks out first so they can't trip the other rules, then the language
+// presets, the user's own rules, and finally the glossary so names win over both.
+// Cues left with no text are dropped.
+export const cleanupCues = (
+  cues: SubtitleEntry[],
+  regions: SubtitleRegion[],
+  settings: TextCleanupSettings
+): SubtitleEntry[] =>
+  cues
+    .map(cue => {
+      const region = regions.find(r => r.id === cueRegionId(cue, regions));
+      // The recognized language is the surest guide where the engine reported one
+      const languages = cue.language ? [cue.language] : region ? regionLanguages(region) : [];
+      const text = cleanText(cue.text, languages, settings);
+      return text === cue.text ? cue : { ...cue, text };
+    })
+    .filter(cue => cue.text);
+
+export const serializeCleanup = (settings: TextCleanupSettings) =>
+  JSON.stringify({ version: CLEANUP_FILE_VERSION, cleanup: settings }, null, 2);
+
+export const parseCleanupFile = (content: string): TextCleanupSettings => {
+  const data = JSON.parse(content);
+  const cleanup = data?.cleanup;
+  if (data?.version !== CLEANUP_FILE_VERSION || !Array.isArray(cleanup?.rules) || !Array.isArray(cleanup?.glossary) || !Array.isArray(cleanup?.blacklist)) {
+    throw new Error("Not a text cleanup file.");
+  }
+  return { ...DEFAULT_CLEANUP, ...cleanup } as TextCleanupSettings;
+};
+
+export const createReplaceRule = (): ReplaceRule => ({
+  id: `rule-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`,
+  find: '',
+  replace: '',
+  isRegex: false,
+  enabled: true
+});
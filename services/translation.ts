@@ -0,0 +1,77 @@
+import { DispatchSettings, OCRLanguage, SubtitleEntry, SubtitleRegion, TokenUsage } from "../types";
+import { TranslationEngine, addUsage } from "./ocrEngine";
+import { RequestScheduler } from "./requestScheduler";
+import { isRateLimitError } from "./ocrJobRunner";
+import { cueRegionId } from "./regions";
+
+const CHUNK_SIZE = 30;
+// Lines on either side of a chunk sent along for context
+const CONTEXT_LINES = 4;
+const MAX_ATTEMPTS = 3;
+const BACKOFF_BASE_MS = 1000;
+const RATE_LIMIT_BACKOFF_MS = 10_000;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export interface TranslationResult {
+  translations: Map<string, string>; // cue id to translated text
+  failedLines: number;
+  usage: TokenUsage;
+}
+
+// Translates each region's track in chunks, so context never crosses from one track into another.
+// Failed chunks leave their cues untranslated rather than failing the whole pass.
+export const translateCues = async (
+  cues: SubtitleEntry[],
+  regions: SubtitleRegion[],
+  target: OCRLanguage,
+  engine: TranslationEngine,
+  dispatch: DispatchSettings,
+  onProgress: (translated: number, total: number) => void
+): Promise<TranslationResult> => {
+  const scheduler = new RequestScheduler(dispatch);
+  const translations = new Map<string, string>();
+  let usage: TokenUsage = { promptTokens: 0, outputTokens: 0, totalTokens: 0 };
+  let settled = 0;
+  let failedLines = 0;
+  const total = cues.filter(s => s.text.trim()).length;
+
+  const tasks = regions.flatMap(region => {
+    const track = cues
+      .filter(s => cueRegionId(s, regions) === region.id && s.text.trim())
+      .sort((a, b) => a.startTime - b.startTime);
+    return Array.from({ length: Math.ceil(track.length / CHUNK_SIZE) }, (_, c) => {
+      const start = c * CHUNK_SIZE;
+      const chunk = track.slice(start, start + CHUNK_SIZE);
+      return scheduler.run(async () => {
+        const request = {
+          lines: chunk.map(s => s.text),
+          before: track.slice(Math.max(0, start - CONTEXT_LINES), start).map(s => s.text),
+          after: track.slice(start + chunk.length, start + chunk.length + CONTEXT_LINES).map(s => s.text),
+          source: region.language,
+          target
+        };
+        for (let attempt = 1; ; attempt++) {
+          await scheduler.throttle();
+          try {
+            const lines = await engine.translateLines(request, { onUsage: u => { usage = addUsage(usage, u); } });
+            chunk.forEach((s, i) => translations.set(s.id, lines[i]));
+            break;
+          } catch (error) {
+            if (isRateLimitError(error)) scheduler.backoff(RATE_LIMIT_BACKOFF_MS);
+            if (attempt >= MAX_ATTEMPTS) {
+              console.error(`Translation of ${region.name} lines ${start + 1}-${start + chunk.length} failed:`, error);
+              failedLines += chunk.length;
+              break;
+            }
+            await delay(BACKOFF_BASE_MS * 2 ** (attempt - 1));
+          }
+        }
+        settled += chunk.length;
+        onProgress(settled, total);
+      });
+    });
+  });
+  await Promise.all(tasks);
+  return { translations, failedLines, usage };
+};
@@ -1,11 +1,31 @@
 
 export enum OCRLanguage {
+  Auto = 'Auto-detect', // the engine identifies each line's language
   English = 'English',
   Japanese = 'Japanese',
   Korean = 'Korean',
   ChineseSimplified = 'Chinese (Simplified)',
   ChineseTraditional = 'Chinese (Traditional)',
-  Thai = 'Thai'
+  Thai = 'Thai',
+  Vietnamese = 'Vietnamese',
+  Indonesian = 'Indonesian',
+  Hindi = 'Hindi',
+  Arabic = 'Arabic',
+  Hebrew = 'Hebrew',
+  Persian = 'Persian',
+  Turkish = 'Turkish',
+  Russian = 'Russian',
+  Ukrainian = 'Ukrainian',
+  Spanish = 'Spanish',
+  Portuguese = 'Portuguese',
+  French = 'French',
+  German = 'German',
+  Italian = 'Italian'
+}
+
+export enum OCREngineType {
+  Gemini = 'Gemini Cloud',
+  Local = 'Local (Offline)'
 }
 
 export interface SubtitleArea {
@@ -15,17 +35,113 @@ export interface SubtitleArea {
   height: number; // percentage 0-100
 }
 
+export interface SubtitleRegion {
+  id: string;
+  name: string;
+  area: SubtitleArea;
+  language: OCRLanguage;
+  mixedLanguages?: OCRLanguage[]; // further languages expected alongside `language`
+}
+
 export interface SubtitleEntry {
   id: string;
   startTime: number;
   endTime: number;
   text: string;
+  regionId?: string; // track the cue belongs to; absent means the primary region
+  confidence?: number; // 0-1 as reported by the OCR engine; cleared once a reviewer confirms the text
+  alternates?: string[]; // other plausible readings of the same line
+  frameIds?: string[]; // stored crops the cue was recognized from, oldest first
+  translation?: string; // text in the project's translation language
+  language?: OCRLanguage; // as recognized; absent when the engine could not tell
+}
+
+export interface CapturedFrame {
+  data: string; // data URL of the cropped subtitle region
+  timestamp: number;
+  endTimestamp?: number; // last sampled time the region stayed unchanged, when frames were collapsed
+}
+
+export interface ScanSettings {
+  sampleStep: number; // seconds between coarse samples
+  diffThreshold: number; // 0 disables change detection
+  refineFrameRate: number; // boundary precision as 1/fps seconds, 0 disables refinement
+}
+
+export interface PreprocessSettings {
+  upscale: number; // 1 keeps the native crop size
+  grayscale: boolean;
+  contrast: number; // 1 leaves contrast unchanged
+  threshold: number; // luma cut-off for binarization (brighter is text), 0 disables
+  keyColor: string | null; // hex colour of the subtitle text to isolate
+  keyTolerance: number; // RGB distance still counted as the key colour
+  removeOutline: boolean;
+  format: 'jpeg' | 'png';
+}
+
+// A find/replace applied to recognized text; `find` is a regular expression when `isRegex` is set
+export interface ReplaceRule {
+  id: string;
+  find: string;
+  replace: string;
+  isRegex: boolean;
+  enabled: boolean;
+}
+
+export interface TextCleanupSettings {
+  normalize: boolean; // apply the normalization presets of each cue's language
+  rules: ReplaceRule[];
+  glossary: string[]; // names and terms, spelled as they should appear
+  blacklist: string[]; // watermark and channel text removed wherever it is read
+}
+
+export interface DispatchSettings {
+  concurrency: number; // batches in flight at once
+  requestsPerMinute: number; // 0 disables the limit
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number; // includes any thinking tokens, which are billed as output
+  totalTokens: number;
 }
 
 export interface OCRProcessState {
   isProcessing: boolean;
   progress: number;
   currentStep: string;
+  stage?: 'scanning' | 'recognizing';
+  usage?: TokenUsage;
+  estimatedCost?: number; // USD
+}
+
+export type OCRBatchStatus = 'pending' | 'done' | 'failed';
+
+export interface OCRBatch {
+  index: number;
+  regionId: string;
+  language: OCRLanguage;
+  mixedLanguages?: OCRLanguage[];
+  frameStart: number; // index into OCRJob.frames
+  frameEnd: number; // exclusive
+  status: OCRBatchStatus;
+  attempts: number;
+  results: SubtitleEntry[];
+  usage?: TokenUsage;
+  error?: string;
+}
+
+export type OCRJobStatus = 'pending' | 'running' | 'paused' | 'cancelled' | 'failed' | 'completed';
+
+export interface OCRJob {
+  id: string;
+  projectId: string;
+  createdAt: number;
+  engineType: OCREngineType;
+  timeRange: { start: number; end: number };
+  frames: CapturedFrame[]; // every region's frames, addressed by batch
+  batches: OCRBatch[];
+  status: OCRJobStatus;
 }
 
 export interface VideoMetadata {
@@ -34,3 +150,68 @@ export interface VideoMetadata {
   height: number;
   aspectRatio: number;
 }
+
+// A captured crop kept after its job, so cues can be checked against their source pixels
+export interface StoredFrame {
+  id: string;
+  projectId: string;
+  data: string; // data URL
+}
+
+export interface VideoFingerprint {
+  name: string;
+  size: number;
+  lastModified: number;
+  headHash: string; // SHA-256 of the first megabyte, empty where hashing is unavailable
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  video: VideoFingerprint;
+  regions: SubtitleRegion[];
+  area?: SubtitleArea; // single-region projects saved before regions existed
+  language?: OCRLanguage;
+  engineType: OCREngineType;
+  scanSettings: ScanSettings;
+  dispatchSettings?: DispatchSettings; // absent in projects saved before concurrent dispatch
+  preprocess?: PreprocessSettings; // absent in projects saved before preprocessing
+  textCleanup?: TextCleanupSettings;
+  translationLanguage?: OCRLanguage;
+  timeRange: { start: number; end: number };
+  subtitles: SubtitleEntry[];
+}
+
+// Extraction settings shared by every file in a batch run
+export interface BatchPreset {
+  regions: SubtitleRegion[];
+  engineType: OCREngineType;
+  scanSettings: ScanSettings;
+  dispatchSettings: DispatchSettings;
+  preprocess: PreprocessSettings;
+  textCleanup: TextCleanupSettings;
+}
+
+export interface BatchResult {
+  subtitles: SubtitleEntry[];
+  regions: SubtitleRegion[]; // as extracted, after overrides
+  metadata: VideoMetadata;
+  failedSegments: number;
+  totalSegments: number;
+}
+
+export type BatchItemStatus = 'queued' | 'processing' | 'done' | 'failed';
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  regions?: SubtitleRegion[]; // replaces the preset's regions for this file
+  language?: OCRLanguage; // applied to every region of this file
+  status: BatchItemStatus;
+  progress: number;
+  currentStep: string;
+  error?: string;
+  result?: BatchResult; // kept on failure when only some segments failed
+}